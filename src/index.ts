@@ -1,58 +1,189 @@
 import * as core from '@actions/core';
-import * as github from '@actions/github';
-import { SlackService } from './services/slack';
-import { createIssueTracker, getProjectKey } from './services/tracker-factory';
-import { parseCommits, getAllTicketIds } from './utils/parser';
+import { createNotifiers } from './services/notifier-factory';
+import { groupIssuesByRoute, parseRoute } from './services/router';
+import { createStateStore } from './services/state-store';
+import {
+  getDeploymentContext,
+  getEventEnvironment,
+  getRevertedCommits,
+} from './services/commit-source';
+import { DeploymentThreads } from './services/threads';
+import { DeploymentLedger } from './services/ledger';
+import {
+  createIssueTracker,
+  getProjectKey,
+  getTrackerTypes,
+} from './services/tracker-factory';
+import {
+  parseCommits,
+  parsePattern,
+  getAllTicketIds,
+  getPullRequestsByTicket,
+  getReferenceTypes,
+  getTicketChanges,
+  getCommitsByTicket,
+  detectIssueTracker,
+} from './utils/parser';
 import { createLogger } from './utils/logger';
+import { loadConfigFile } from './utils/config-file';
 import {
   Config,
   ConfigSchema,
   NotificationData,
   Issue,
-  IssueTrackerService,
   ConfigurationError,
+  PullRequestInfo,
+  ReferenceType,
+  TransitionResult,
 } from './types';
 
 const logger = createLogger('Main');
 
+/**
+ * Parses a comma-separated input into a list, or undefined when empty
+ */
+function parseList(input: string): string[] | undefined {
+  const items = input
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Masks tokens, passwords and webhook URLs (which grant posting access)
+ * in the job log
+ */
+function maskSecrets(config: Config): void {
+  const secrets = [
+    config.jiraApiToken,
+    config.linearApiKey,
+    config.githubToken,
+    config.azureToken,
+    config.shortcutApiToken,
+    config.slackBotToken,
+    config.teamsWebhookUrl,
+    config.teamsGraphToken,
+    config.webhookUrl,
+    config.webhookSecret,
+    config.discordWebhookUrl,
+    config.smtpPassword,
+  ];
+  for (const secret of secrets) {
+    if (secret) {
+      core.setSecret(secret);
+    }
+  }
+}
+
 /**
  * Loads and validates configuration from action inputs
  */
 function loadConfig(): Config {
   try {
+    const configFilePath = core.getInput('config_file');
+    const configFile = configFilePath ? loadConfigFile(configFilePath) : undefined;
+
+    // pm_mapping_json entries take precedence over the config file
     const pmMappingInput = core.getInput('pm_mapping_json') || '{}';
-    const pmMapping = JSON.parse(pmMappingInput);
+    const pmMapping = {
+      ...configFile?.pmMapping,
+      ...JSON.parse(pmMappingInput),
+    };
 
-    const statusFilterInput = core.getInput('ticket_status_filter') || '';
-    const ticketStatusFilter =
-      statusFilterInput.length > 0
-        ? statusFilterInput.split(',').map((s) => s.trim())
-        : undefined;
+    const ticketStatusFilter = parseList(core.getInput('ticket_status_filter'));
 
-    const issueTracker = (core.getInput('issue_tracker') || 'jira') as 'jira' | 'linear';
+    const issueTracker = core.getInput('issue_tracker') || 'jira';
+    const trackerPrefixMapInput = core.getInput('tracker_prefix_map');
+    const trackerPrefixMap = trackerPrefixMapInput
+      ? JSON.parse(trackerPrefixMapInput)
+      : undefined;
 
     const config = ConfigSchema.parse({
       issueTracker,
+      trackerPrefixMap,
       // Jira config
       jiraBaseUrl: core.getInput('jira_base_url') || undefined,
       jiraEmail: core.getInput('jira_email') || undefined,
       jiraApiToken: core.getInput('jira_api_token') || undefined,
       jiraProjectKey: core.getInput('jira_project_key') || undefined,
+      jiraPmField: core.getInput('jira_pm_field') || undefined,
+      jiraPmFallback: parseList(core.getInput('jira_pm_fallback')),
+      jiraSprintField: core.getInput('jira_sprint_field') || undefined,
+      jiraBoardId: core.getInput('jira_board_id') || undefined,
+      jiraCommentOnDeploy: core.getInput('jira_comment_on_deploy') === 'true',
+      jiraTransitionMap: core.getInput('jira_transition_map')
+        ? JSON.parse(core.getInput('jira_transition_map'))
+        : undefined,
       // Linear config
       linearApiKey: core.getInput('linear_api_key') || undefined,
       linearTeamKey: core.getInput('linear_team_key') || undefined,
+      linearStateMap: core.getInput('linear_state_map')
+        ? JSON.parse(core.getInput('linear_state_map'))
+        : undefined,
+      linearCommentOnDeploy: core.getInput('linear_comment_on_deploy') === 'true',
+      linearDeployLabels: core.getInput('linear_deploy_labels') === 'true',
+      // GitHub Issues config
+      githubToken: core.getInput('github_token') || undefined,
+      githubPmField: core.getInput('github_pm_field') || undefined,
+      // Azure Boards config
+      azureOrgUrl: core.getInput('azure_devops_org_url') || undefined,
+      azureProject: core.getInput('azure_devops_project') || undefined,
+      azureToken: core.getInput('azure_devops_token') || undefined,
+      azureTeam: core.getInput('azure_devops_team') || undefined,
+      azurePmField: core.getInput('azure_pm_field') || undefined,
+      // Shortcut config
+      shortcutApiToken: core.getInput('shortcut_api_token') || undefined,
+      shortcutPmSource: core.getInput('shortcut_pm_source') || undefined,
+      shortcutWorkspace: core.getInput('shortcut_workspace') || undefined,
       // Common config
-      slackBotToken: core.getInput('slack_bot_token', { required: true }),
-      slackChannelOrUser: core.getInput('slack_channel_or_user', {
-        required: true,
-      }),
-      environment: core.getInput('environment') || 'staging',
+      // Notifier config
+      notifier: core.getInput('notifier') || undefined,
+      slackBotToken: core.getInput('slack_bot_token') || undefined,
+      slackChannelOrUser: core.getInput('slack_channel_or_user') || undefined,
+      teamsWebhookUrl: core.getInput('teams_webhook_url') || undefined,
+      teamsGraphToken: core.getInput('teams_graph_token') || undefined,
+      webhookUrl: core.getInput('webhook_url') || undefined,
+      webhookSecret: core.getInput('webhook_secret') || undefined,
+      discordWebhookUrl: core.getInput('discord_webhook_url') || undefined,
+      smtpHost: core.getInput('smtp_host') || undefined,
+      smtpPort: core.getInput('smtp_port') || undefined,
+      smtpSecure: core.getInput('smtp_secure') === 'true',
+      smtpUsername: core.getInput('smtp_username') || undefined,
+      smtpPassword: core.getInput('smtp_password') || undefined,
+      emailFrom: core.getInput('email_from') || undefined,
+      emailMode: core.getInput('email_mode') || undefined,
+      environmentChain: parseList(core.getInput('environment_chain')),
+      stateStore: core.getInput('state_store') || undefined,
+      stateFile: core.getInput('state_file') || undefined,
+      stateBranch: core.getInput('state_branch') || undefined,
+      forceRenotify: core.getInput('force_renotify') === 'true',
+      // Deployment events default to the deployment's environment
+      environment:
+        core.getInput('environment') || getEventEnvironment() || 'staging',
       pmMapping,
+      jiraUsers: configFile?.jiraUsers,
+      channelMapping: configFile?.channelMapping,
+      alwaysNotifyChannel: configFile?.alwaysNotifyChannel,
       onlyActiveSprint:
         core.getInput('only_active_sprint') !== 'false',
+      scanPullRequests: core.getInput('scan_pull_requests') !== 'false',
+      ignoreMentions: core.getInput('ignore_mentions') === 'true',
+      ticketPatterns: core.getMultilineInput('ticket_patterns').length
+        ? core.getMultilineInput('ticket_patterns')
+        : undefined,
+      ticketTrailers: parseList(core.getInput('ticket_trailers')),
+      ignorePrefixes: parseList(core.getInput('ignore_prefixes')),
+      skipMarkers: parseList(core.getInput('skip_markers')),
+      rollbackLabel: core.getInput('rollback_label') || undefined,
       ticketStatusFilter,
     });
 
+    maskSecrets(config);
+
+    // Fail early on invalid ticket patterns
+    config.ticketPatterns?.forEach(parsePattern);
+
     logger.info('Configuration loaded successfully');
     logger.info(`Issue tracker: ${config.issueTracker}`);
     logger.debug(`Environment: ${config.environment}`);
@@ -68,74 +199,57 @@ function loadConfig(): Config {
 }
 
 /**
- * Gets commit information from GitHub context
+ * Gets the values an environment map assigns to environments promoted after
+ * the current one, in environment_chain order
+ * Without environment_chain the map's key order is used, with a warning, as
+ * JSON key order is easy to get wrong
  */
-function getCommitInfo() {
-  const context = github.context;
-
-  // Get commits from push event
-  const commits = context.payload.commits || [];
-
-  if (commits.length === 0) {
-    logger.warning('No commits found in push event');
-    return {
-      commits: [],
-      branch: context.ref.replace('refs/heads/', ''),
-      sha: context.sha,
-      actor: context.actor,
-      repo: context.repo,
-    };
+function getLaterMappedValues(
+  map: Record<string, string>,
+  config: Config,
+  inputName: string
+): string[] {
+  let environments = config.environmentChain;
+  if (!environments) {
+    logger.warning(
+      `environment_chain is not set, so ${inputName} is assumed to list environments in promotion order`
+    );
+    environments = Object.keys(map);
   }
 
-  logger.info(`Processing ${commits.length} commit(s)`);
-
-  return {
-    commits,
-    branch: context.ref.replace('refs/heads/', ''),
-    sha: context.sha,
-    actor: context.actor,
-    repo: context.repo,
-  };
+  const index = environments.indexOf(config.environment);
+  if (index === -1) {
+    return [];
+  }
+  return environments
+    .slice(index + 1)
+    .map((environment) => map[environment])
+    .filter((value): value is string => value !== undefined);
 }
 
 /**
- * Resolves the Slack user/channel to notify for a set of issues
+ * Converts issues to the notification format used by all notifiers
  */
-async function resolveSlackTarget(
+function toNotificationData(
   issues: Issue[],
-  config: Config,
-  trackerService: IssueTrackerService,
-  slackService: SlackService
-): Promise<string> {
-  const projectKey = getProjectKey(config);
-
-  // If PM mapping is provided, try to use it
-  if (config.pmMapping && Object.keys(config.pmMapping).length > 0 && projectKey) {
-    // Check if there's a mapping for the project/team
-    const projectMapping = config.pmMapping[projectKey];
-    if (projectMapping) {
-      logger.info(
-        `Using PM mapping for ${config.issueTracker} project ${projectKey}: ${projectMapping}`
-      );
-      return projectMapping;
-    }
-  }
-
-  // Try to get PM from first issue
-  if (issues.length > 0) {
-    const pmEmail = trackerService.getPmEmail(issues[0]);
-    if (pmEmail) {
-      logger.info(`Found PM email from issue: ${pmEmail}`);
-      const slackUserId = await slackService.getUserIdByEmail(pmEmail);
-      if (slackUserId) {
-        return slackUserId;
-      }
-    }
-  }
-
-  // Fallback to configured channel/user
-  logger.info('Using configured Slack channel/user');
-  return config.slackChannelOrUser;
+  pullRequests: Map<string, PullRequestInfo[]>,
+  referenceTypes: Map<string, ReferenceType>,
+  transitions: Map<string, TransitionResult>
+): NotificationData[] {
+  return issues.map((issue) => ({
+    ticket: issue.key,
+    summary: issue.summary,
+    status: issue.status,
+    sprint: issue.sprint?.name || null,
+    cycle: issue.cycle?.name || null,
+    url: issue.url,
+    assignee: issue.assignee?.name || null,
+    pullRequests: pullRequests
+      .get(issue.key)
+      ?.map(({ number, url }) => ({ number, url })),
+    reference: referenceTypes.get(issue.key) ?? 'closes',
+    transition: transitions.get(issue.key),
+  }));
 }
 
 /**
@@ -148,51 +262,159 @@ async function run(): Promise<void> {
     // Load configuration
     const config = loadConfig();
 
-    // Get commit information
-    const { commits, branch, sha, actor, repo } = getCommitInfo();
+    // Load the deployment state (ledger and threads) from previous runs
+    if (config.environmentChain && !config.stateStore) {
+      logger.warning(
+        'environment_chain is set without state_store, so promotion threads are off: set state_store to keep one message per ticket batch across environments'
+      );
+    }
+    const stateStore = config.stateStore ? createStateStore(config) : undefined;
+    const state = stateStore ? await stateStore.load() : undefined;
+    const ledger = state
+      ? new DeploymentLedger(state, config.environment)
+      : undefined;
+
+    // Get the deployed commits for the triggering event, starting after the
+    // last commit scanned in this environment when known
+    const { commits, branch, sha, baseSha, actor, repo } =
+      await getDeploymentContext(config, ledger?.getLastScan());
+
+    // The scanned head only advances after a fully successful run, so
+    // commits without tickets aren't scanned again by the next run while a
+    // re-run after a failure scans the same commits
+    const saveState = async (advanceHead: boolean): Promise<void> => {
+      if (!stateStore || !state) {
+        return;
+      }
+      if (advanceHead) {
+        ledger?.recordHead(sha, baseSha);
+      }
+      try {
+        await stateStore.save(state);
+      } catch (error) {
+        logger.warning(
+          `Failed to save deployment state: ${(error as Error).message}`
+        );
+      }
+    };
 
     if (commits.length === 0) {
       logger.info('No commits to process, exiting');
       core.setOutput('tickets_found', 0);
       core.setOutput('tickets_notified', 0);
+      core.setOutput('tickets_rolled_back', 0);
+      await saveState(true);
       return;
     }
 
+    logger.info(`Processing ${commits.length} commit(s)`);
+
     // Parse commits for issue IDs (works for both Jira and Linear)
     const projectKey = getProjectKey(config);
-    const parsedCommits = parseCommits(commits, projectKey);
-    const issueIds = getAllTicketIds(parsedCommits);
+    const revertedCommits = await getRevertedCommits(config, commits);
+    const parsedCommits = parseCommits(commits, projectKey, {
+      trackers: getTrackerTypes(config),
+      defaultRepo: `${repo.owner}/${repo.repo}`,
+      patterns: config.ticketPatterns?.map(parsePattern),
+      // Configured keys are also recognized in lowercase (proj-123)
+      knownKeys: [
+        ...(projectKey ? [projectKey] : []),
+        ...Object.keys(config.trackerPrefixMap ?? {}),
+      ],
+      ignorePrefixes: config.ignorePrefixes,
+      trailers: config.ticketTrailers,
+      skipMarkers: config.skipMarkers,
+      revertedCommits,
+    });
+    const referenceTypes = getReferenceTypes(parsedCommits);
+    const pullRequestsByTicket = getPullRequestsByTicket(parsedCommits);
+
+    // Reverted tickets get a rollback notice instead of being announced
+    const ticketChanges = getTicketChanges(parsedCommits);
+    const allIssueIds = getAllTicketIds(parsedCommits);
+    let issueIds = allIssueIds.filter(
+      (id) => ticketChanges.get(id) === 'deployed'
+    );
+    const rolledBackIds = allIssueIds.filter(
+      (id) => ticketChanges.get(id) === 'rolled_back'
+    );
+    const cancelled = allIssueIds.filter((id) => ticketChanges.get(id) === 'none');
+    if (cancelled.length > 0) {
+      logger.info(
+        `Ignoring ticket(s) reverted within the same deployment: ${cancelled.join(', ')}`
+      );
+    }
+
+    // Tickets only mentioned ("Refs PROJ-1") aren't ready for testing
+    if (config.ignoreMentions) {
+      const mentioned = issueIds.filter(
+        (id) => referenceTypes.get(id) === 'mentions'
+      );
+      if (mentioned.length > 0) {
+        logger.info(`Ignoring mention-only reference(s): ${mentioned.join(', ')}`);
+        issueIds = issueIds.filter((id) => !mentioned.includes(id));
+      }
+    }
 
-    if (issueIds.length === 0) {
+    if (issueIds.length === 0 && rolledBackIds.length === 0) {
       logger.info(`No ${config.issueTracker} issues found in commits, exiting`);
       core.setOutput('tickets_found', 0);
       core.setOutput('tickets_notified', 0);
+      core.setOutput('tickets_rolled_back', 0);
+      await saveState(true);
       return;
     }
 
     logger.info(`Found ${issueIds.length} unique issue(s): ${issueIds.join(', ')}`);
-    core.setOutput('tickets_found', issueIds.length);
+    if (rolledBackIds.length > 0) {
+      logger.info(
+        `Found ${rolledBackIds.length} rolled back issue(s): ${rolledBackIds.join(', ')}`
+      );
+    }
+    core.setOutput('tickets_found', issueIds.length + rolledBackIds.length);
 
     // Initialize services
     const trackerService = createIssueTracker(config);
-    const slackService = new SlackService(config.slackBotToken);
+    await trackerService.initialize?.();
+    const notifiers = createNotifiers(config);
 
     // Fetch issue details
-    const issues = await trackerService.getIssues(issueIds);
+    const fetchedIssues = await trackerService.getIssues([
+      ...issueIds,
+      ...rolledBackIds,
+    ]);
 
-    if (issues.length === 0) {
+    if (fetchedIssues.length === 0) {
       logger.warning(`No issues found in ${config.issueTracker}`);
       core.setOutput('tickets_notified', 0);
+      core.setOutput('tickets_rolled_back', 0);
+      await saveState(true);
       return;
     }
 
+    // The PM was told rolled back tickets were ready, so the filters below
+    // don't apply to them
+    const issues = fetchedIssues.filter(
+      (issue) => !rolledBackIds.includes(issue.key)
+    );
+    let rolledBackIssues = fetchedIssues.filter((issue) =>
+      rolledBackIds.includes(issue.key)
+    );
+
     // Filter by active sprint/cycle if configured
     let filteredIssues = issues;
     if (config.onlyActiveSprint) {
       filteredIssues = issues.filter((issue) =>
         trackerService.isInActiveSprint(issue)
       );
-      const iterationType = config.issueTracker === 'linear' ? 'cycle' : 'sprint';
+      const iterationType = {
+        jira: 'sprint',
+        linear: 'cycle',
+        github: 'iteration',
+        azure: 'iteration',
+        shortcut: 'iteration',
+        multi: 'sprint/cycle',
+      }[config.issueTracker];
       logger.info(
         `Filtered to ${filteredIssues.length} issue(s) in active ${iterationType}`
       );
@@ -206,53 +428,341 @@ async function run(): Promise<void> {
       );
     }
 
-    if (filteredIssues.length === 0) {
+    // Skip tickets already announced in this environment unless forced
+    if (ledger) {
+      if (config.forceRenotify) {
+        logger.info('force_renotify is set, not skipping announced tickets');
+      } else {
+        filteredIssues = ledger.filterUnannounced(filteredIssues);
+      }
+      rolledBackIssues = ledger.filterAnnounced(rolledBackIssues);
+    }
+
+    if (filteredIssues.length === 0 && rolledBackIssues.length === 0) {
       logger.info('No issues match the filter criteria, skipping notification');
       core.setOutput('tickets_notified', 0);
+      core.setOutput('tickets_rolled_back', 0);
+      await saveState(true);
       return;
     }
 
-    // Prepare notification data
-    const notifications: NotificationData[] = filteredIssues.map((issue) => ({
-      ticket: issue.key,
-      summary: issue.summary,
-      status: issue.status,
-      sprint: issue.sprint?.name || null,
-      cycle: issue.cycle?.name || null,
-      url: issue.url,
-      assignee: issue.assignee?.name || null,
-    }));
-
-    // Resolve Slack target
-    const slackTarget = await resolveSlackTarget(
-      filteredIssues,
-      config,
-      trackerService,
-      slackService
-    );
-
-    // Send Slack notification
+    // Deployment details shared by notifications and tracker write-backs
     const repoUrl = `https://github.com/${repo.owner}/${repo.repo}`;
-    const messageTs = await slackService.sendNotification(
-      slackTarget,
-      notifications,
-      {
-        branch,
-        environment: config.environment,
-        deployedBy: actor,
-        commitSha: sha,
-        repoUrl,
+    const metadata = {
+      branch,
+      environment: config.environment,
+      deployedBy: actor,
+      commitSha: sha,
+      repoUrl,
+    };
+
+    // Move issues to the status mapped to this environment if configured,
+    // before notifying so messages show the outcome
+    const transitions = new Map<string, TransitionResult>();
+    const recordTransition = (issue: Issue, result: TransitionResult) => {
+      transitions.set(issue.key, result);
+      if (result.outcome === 'transitioned') {
+        issue.status = result.to;
+      } else if (result.outcome === 'failed') {
+        logger.warning(
+          `Failed to move ${issue.key} to ${result.to}: ${result.reason}`
+        );
+      } else {
+        logger.info(`Not moving ${issue.key}: ${result.reason}`);
       }
-    );
+    };
+
+    const targetStatus = config.jiraTransitionMap?.[config.environment];
+    if (targetStatus && filteredIssues.length > 0) {
+      if (!trackerService.transitionIssue) {
+        logger.warning(
+          `${config.issueTracker} doesn't support transitions, not moving issues to ${targetStatus}`
+        );
+      } else {
+        // Statuses mapped to later environments count as past this one
+        const laterStatuses = getLaterMappedValues(
+          config.jiraTransitionMap ?? {},
+          config,
+          'jira_transition_map'
+        );
+
+        // jira_transition_map only covers Jira issues in multi mode
+        const jiraIssues =
+          config.issueTracker === 'multi'
+            ? filteredIssues.filter(
+                (issue) =>
+                  detectIssueTracker(issue.key, config.trackerPrefixMap) ===
+                  'jira'
+              )
+            : filteredIssues;
+
+        for (const issue of jiraIssues) {
+          recordTransition(
+            issue,
+            await trackerService.transitionIssue(issue, targetStatus, laterStatuses)
+          );
+        }
+      }
+    }
+
+    // Write the deployment (or rollback) back to Linear if configured:
+    // workflow state, comment and environment label
+    const linearState = config.linearStateMap?.[config.environment];
+    if (
+      linearState ||
+      config.linearCommentOnDeploy ||
+      config.linearDeployLabels
+    ) {
+      if (!trackerService.writeBackDeployment) {
+        logger.warning(
+          `${config.issueTracker} doesn't support Linear write-back, skipping it`
+        );
+      } else {
+        const writeBack = {
+          commits: getCommitsByTicket(parsedCommits),
+          comment: config.linearCommentOnDeploy,
+          labels: config.linearDeployLabels,
+        };
+        try {
+          if (filteredIssues.length > 0) {
+            const results = await trackerService.writeBackDeployment(
+              filteredIssues,
+              {
+                ...writeBack,
+                metadata,
+                state: linearState,
+                // States mapped to later environments count as past this one
+                laterStates: linearState
+                  ? getLaterMappedValues(
+                      config.linearStateMap ?? {},
+                      config,
+                      'linear_state_map'
+                    )
+                  : undefined,
+              }
+            );
+            for (const issue of filteredIssues) {
+              const result = results.get(issue.key);
+              if (result) {
+                recordTransition(issue, result);
+              }
+            }
+          }
+          if (rolledBackIssues.length > 0) {
+            await trackerService.writeBackDeployment(rolledBackIssues, {
+              ...writeBack,
+              metadata: { ...metadata, rollback: true },
+            });
+          }
+        } catch (error) {
+          logger.warning(
+            `Failed to write the deployment back to Linear: ${(error as Error).message}`
+          );
+        }
+      }
+    }
+
+    // Group issues by the PM (or channel) responsible for them, rollbacks
+    // going to whoever was told about the tickets
+    const groups =
+      filteredIssues.length > 0
+        ? await groupIssuesByRoute(
+            filteredIssues,
+            config,
+            trackerService,
+            notifiers
+          )
+        : new Map<string, Issue[]>();
+    const rollbackGroups =
+      rolledBackIssues.length > 0
+        ? await groupIssuesByRoute(
+            rolledBackIssues,
+            config,
+            trackerService,
+            notifiers
+          )
+        : new Map<string, Issue[]>();
+
+    // Continue earlier threads when tickets are promoted along the chain
+    const threads =
+      state && config.environmentChain
+        ? new DeploymentThreads(
+            state,
+            config.environmentChain,
+            config.environment
+          )
+        : undefined;
+
+    // Send one notification per recipient with only their tickets
+    const messages: Record<string, string> = {};
+    const slackMessages: Record<string, string> = {};
+    const notifiedTickets = new Set<string>();
+    const rolledBackTickets = new Set<string>();
+    const ticketRoutes = new Map<string, string>(); // announcing route per ticket
+    const failedRoutes: string[] = [];
+    const deliveries: Array<[Map<string, Issue[]>, boolean]> = [
+      [groups, false],
+      [rollbackGroups, true],
+    ];
+
+    for (const [routeGroups, rollback] of deliveries) {
+      for (const [routeKey, targetIssues] of routeGroups) {
+        const route = parseRoute(routeKey, config.notifier);
+        const notifier = notifiers[route.notifier];
+        if (!notifier) {
+          logger.error(`Notifier ${route.notifier} is not configured`);
+          failedRoutes.push(routeKey);
+          continue;
+        }
+
+        const notifications = toNotificationData(
+          targetIssues,
+          pullRequestsByTicket,
+          referenceTypes,
+          rollback ? new Map() : transitions
+        );
+        try {
+          let messageId: string | undefined;
+          if (rollback) {
+            // Rollbacks reply in the thread that announced the tickets
+            messageId = threads
+              ? await threads.rollBack(
+                  routeKey,
+                  route.target,
+                  notifier,
+                  notifications,
+                  metadata
+                )
+              : await notifier.sendNotification(route.target, notifications, {
+                  ...metadata,
+                  rollback: true,
+                });
+          } else {
+            messageId = threads
+              ? await threads.deliver(
+                  routeKey,
+                  route.target,
+                  notifier,
+                  notifications,
+                  metadata
+                )
+              : await notifier.sendNotification(
+                  route.target,
+                  notifications,
+                  metadata
+                );
+          }
+
+          const tickets = rollback ? rolledBackTickets : notifiedTickets;
+          notifications.forEach((n) => tickets.add(n.ticket));
+          if (messageId) {
+            if (!rollback) {
+              // Prefer linking Slack messages, which have permalinks
+              for (const n of notifications) {
+                if (!ticketRoutes.has(n.ticket) || route.notifier === 'slack') {
+                  ticketRoutes.set(n.ticket, routeKey);
+                }
+              }
+            }
+            messages[routeKey] ??= messageId;
+            if (route.notifier === 'slack') {
+              slackMessages[route.target] ??= messageId;
+            }
+          }
+        } catch (error) {
+          // Keep notifying the remaining recipients
+          logger.error(`Failed to notify ${routeKey}`, error as Error);
+          failedRoutes.push(routeKey);
+        }
+      }
+    }
+
+    // Comment deployments on the issues if configured
+    if (config.jiraCommentOnDeploy && notifiedTickets.size > 0) {
+      if (!trackerService.commentOnDeployment) {
+        logger.warning(
+          `${config.issueTracker} doesn't support deployment comments, not commenting`
+        );
+      } else {
+        const commitsByTicket = getCommitsByTicket(parsedCommits);
+        const permalinks = new Map<string, string | null>(); // per route
+
+        for (const issue of filteredIssues) {
+          if (!notifiedTickets.has(issue.key)) {
+            continue;
+          }
+          const routeKey = ticketRoutes.get(issue.key);
+          try {
+            if (routeKey && !permalinks.has(routeKey)) {
+              const route = parseRoute(routeKey, config.notifier);
+              const permalink = await notifiers[route.notifier]?.getPermalink?.(
+                route.target,
+                messages[routeKey]
+              );
+              permalinks.set(routeKey, permalink ?? null);
+            }
+            await trackerService.commentOnDeployment(issue, {
+              metadata,
+              commits: commitsByTicket.get(issue.key) ?? [],
+              permalink: (routeKey && permalinks.get(routeKey)) || undefined,
+            });
+          } catch (error) {
+            logger.warning(
+              `Failed to comment deployment on ${issue.key}: ${(error as Error).message}`
+            );
+          }
+        }
+      }
+    }
+
+    // Flag rolled back tickets in the tracker if configured
+    if (config.rollbackLabel && rolledBackIssues.length > 0) {
+      if (!trackerService.addLabel) {
+        logger.warning(
+          `${config.issueTracker} doesn't support labels, not flagging rolled back tickets`
+        );
+      } else {
+        for (const issue of rolledBackIssues) {
+          try {
+            await trackerService.addLabel(issue, config.rollbackLabel);
+          } catch (error) {
+            logger.warning(
+              `Failed to label ${issue.key} as ${config.rollbackLabel}: ${(error as Error).message}`
+            );
+          }
+        }
+      }
+    }
+
+    ledger?.record([...notifiedTickets], sha);
+    ledger?.forget([...rolledBackTickets]);
+    threads?.prune();
+    await saveState(failedRoutes.length === 0);
 
     logger.info(
-      `✅ Successfully notified about ${notifications.length} ticket(s)`
+      `✅ Notified ${groups.size + rollbackGroups.size - failedRoutes.length} recipient(s) about ${notifiedTickets.size} ticket(s) and ${rolledBackTickets.size} rollback(s)`
     );
 
     // Set outputs
-    core.setOutput('tickets_notified', notifications.length);
-    if (messageTs) {
-      core.setOutput('slack_message_ts', messageTs);
+    core.setOutput('tickets_notified', notifiedTickets.size);
+    core.setOutput('tickets_rolled_back', rolledBackTickets.size);
+    core.setOutput(
+      'tickets_transitioned',
+      [...transitions.values()].filter((t) => t.outcome === 'transitioned')
+        .length
+    );
+    core.setOutput('transitions', JSON.stringify(Object.fromEntries(transitions)));
+    const slackTimestamps = Object.values(slackMessages);
+    if (slackTimestamps.length > 0) {
+      core.setOutput('slack_message_ts', slackTimestamps[0]);
+    }
+    core.setOutput('slack_messages', JSON.stringify(slackMessages));
+    core.setOutput('messages', JSON.stringify(messages));
+
+    if (failedRoutes.length > 0) {
+      core.setFailed(
+        `Failed to notify ${failedRoutes.length} recipient(s): ${failedRoutes.join(', ')}`
+      );
     }
   } catch (error) {
     if (error instanceof Error) {
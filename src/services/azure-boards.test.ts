@@ -0,0 +1,140 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AzureBoardsService } from './azure-boards';
+
+interface ReceivedRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+// Responses by "METHOD /path"; anything else is a 404
+type Handler = (request: ReceivedRequest) => [number, unknown];
+
+const ITERATIONS_PATH = '/Platform/Platform%20Team/_apis/work/teamsettings/iterations';
+
+const iteration = (name: string, timeFrame: string) => ({
+  id: name,
+  name,
+  path: `Platform\\${name}`,
+  attributes: { timeFrame },
+});
+
+const workItem = (id: number, iterationPath: string) => ({
+  id,
+  fields: {
+    'System.Title': `Work item ${id}`,
+    'System.State': 'Active',
+    'System.IterationPath': iterationPath,
+    'System.AssignedTo': { displayName: 'Dev', uniqueName: 'dev@example.com' },
+    'Custom.ProductManager': { displayName: 'PM', uniqueName: 'pm@example.com' },
+  },
+});
+
+describe('AzureBoardsService', () => {
+  let server: http.Server;
+  let orgUrl: string;
+  let handlers: Record<string, Handler>;
+  let requests: ReceivedRequest[];
+
+  beforeEach(async () => {
+    requests = [];
+    handlers = {
+      [`GET ${ITERATIONS_PATH}`]: () => [
+        200,
+        {
+          count: 2,
+          value: [
+            iteration('Sprint 1', 'past'),
+            iteration('Sprint 2', 'current'),
+          ],
+        },
+      ],
+      'POST /Platform/_apis/wit/workitemsbatch': () => [
+        200,
+        {
+          count: 3,
+          value: [
+            workItem(1, 'Platform\\Sprint 2'),
+            workItem(2, 'Platform\\Sprint 1'),
+            null,
+          ],
+        },
+      ],
+    };
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        const received: ReceivedRequest = {
+          method: request.method ?? 'GET',
+          path: url.pathname,
+          body: body ? JSON.parse(body) : undefined,
+        };
+        requests.push(received);
+        const handler = handlers[`${received.method} ${received.path}`];
+        const [status, data] = handler
+          ? handler(received)
+          : [404, { message: 'Not found' }];
+        response
+          .writeHead(status, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify(data));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    orgUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createService = (loadIterations?: boolean) =>
+    new AzureBoardsService(orgUrl, 'Platform', 'token', {
+      team: 'Platform Team',
+      pmField: 'Custom.ProductManager',
+      loadIterations,
+    });
+
+  it("counts work items in the team's current iteration as active", async () => {
+    const service = createService();
+    await service.initialize();
+    const issues = await service.getIssues(['AB#1', 'AB#2', 'AB#3']);
+
+    expect(requests[1].body).toMatchObject({
+      ids: [1, 2, 3],
+      errorPolicy: 'omit',
+    });
+    expect(issues.map((issue) => issue.key)).toEqual(['AB#1', 'AB#2']);
+    expect(issues[0]).toMatchObject({
+      sprint: { name: 'Sprint 2', state: 'active' },
+      pmEmail: 'pm@example.com',
+      url: `${orgUrl}/Platform/_workitems/edit/1`,
+    });
+    expect(issues.map((issue) => service.isInActiveSprint(issue))).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it("fails instead of treating every work item as outside the iteration when iterations can't load", async () => {
+    handlers[`GET ${ITERATIONS_PATH}`] = () => [401, { message: 'Unauthorized' }];
+
+    await expect(createService().initialize()).rejects.toMatchObject({
+      name: 'AzureApiError',
+      statusCode: 401,
+      message: expect.stringContaining(
+        'Failed to load iterations for Platform Team'
+      ),
+    });
+  });
+
+  it('skips iterations when active sprint checks are off', async () => {
+    await createService(false).initialize();
+
+    expect(requests).toHaveLength(0);
+  });
+});
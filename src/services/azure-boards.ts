@@ -0,0 +1,263 @@
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import {
+  AzureWorkItem,
+  AzureWorkItemsResponse,
+  AzureIdentity,
+  AzureIterationsResponse,
+  AzureApiError,
+  Issue,
+  IssueSprint,
+  IssueTrackerService,
+} from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('AzureBoardsService');
+
+const API_VERSION = '7.1';
+
+// Maximum work items per workitemsbatch request
+const BATCH_SIZE = 200;
+
+const BASE_FIELDS = [
+  'System.Title',
+  'System.State',
+  'System.IterationPath',
+  'System.AssignedTo',
+];
+
+export interface AzureBoardsServiceOptions {
+  team?: string; // team whose iterations define the current sprint
+  pmField?: string; // identity field reference name, e.g. Custom.ProductManager
+  loadIterations?: boolean; // needed for active sprint checks, defaults to true
+}
+
+export class AzureBoardsService implements IssueTrackerService {
+  private client: AxiosInstance;
+  private orgUrl: string;
+  private project: string;
+  private team?: string;
+  private pmField: string;
+  private loadIterations: boolean;
+  // Iteration path → sprint state, from the team's iteration settings
+  private iterationStates = new Map<string, IssueSprint['state']>();
+
+  constructor(
+    orgUrl: string,
+    project: string,
+    token: string,
+    options: AzureBoardsServiceOptions = {}
+  ) {
+    this.orgUrl = orgUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.project = project;
+    this.team = options.team;
+    this.pmField = options.pmField ?? 'System.CreatedBy';
+    this.loadIterations = options.loadIterations ?? true;
+
+    this.client = axios.create({
+      baseURL: this.orgUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      // Personal access tokens use basic auth with an empty username
+      auth: {
+        username: '',
+        password: token,
+      },
+      params: {
+        'api-version': API_VERSION,
+      },
+      timeout: 30000,
+    });
+
+    // Add response interceptor for error handling
+    this.client.interceptors.response.use(
+      (response) => response,
+      (error: AxiosError) => {
+        const statusCode = error.response?.status;
+        const message = `Azure DevOps API error: ${error.message}`;
+        logger.error(message, error);
+        throw new AzureApiError(message, statusCode, error.response?.data);
+      }
+    );
+  }
+
+  /**
+   * Loads the team's iterations so iteration paths can be mapped to states
+   * @throws AzureApiError when they can't be loaded, as every work item
+   * would otherwise count as outside the current iteration
+   */
+  async initialize(): Promise<void> {
+    if (!this.loadIterations) {
+      return;
+    }
+
+    const teamPath = this.team
+      ? `${encodeURIComponent(this.project)}/${encodeURIComponent(this.team)}`
+      : encodeURIComponent(this.project);
+
+    try {
+      const response = await this.client.get<AzureIterationsResponse>(
+        `/${teamPath}/_apis/work/teamsettings/iterations`
+      );
+
+      const states: Record<string, IssueSprint['state']> = {
+        past: 'closed',
+        current: 'active',
+        future: 'future',
+      };
+      for (const iteration of response.data.value) {
+        this.iterationStates.set(
+          iteration.path,
+          states[iteration.attributes.timeFrame]
+        );
+        if (iteration.attributes.timeFrame === 'current') {
+          logger.info(`Found current iteration: ${iteration.path}`);
+        }
+      }
+    } catch (error) {
+      throw new AzureApiError(
+        `Failed to load iterations for ${this.team ?? this.project}, which only_active_sprint needs: ${(error as Error).message}`,
+        (error as AzureApiError).statusCode,
+        (error as AzureApiError).response
+      );
+    }
+  }
+
+  /**
+   * Gets work items by reference (AB#1234) in batches
+   */
+  async getIssues(issueIds: string[]): Promise<Issue[]> {
+    if (issueIds.length === 0) {
+      return [];
+    }
+
+    logger.group(`Fetching ${issueIds.length} work items from Azure Boards`);
+    try {
+      const ids = issueIds.map((issueId) => Number(issueId.replace(/^AB#/, '')));
+      const issues: Issue[] = [];
+
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const workItems = await this.getWorkItems(ids.slice(i, i + BATCH_SIZE));
+        issues.push(...workItems.map((item) => this.convertToGenericIssue(item)));
+      }
+
+      const found = new Set(issues.map((issue) => issue.key));
+      for (const issueId of issueIds) {
+        if (!found.has(issueId)) {
+          logger.warning(`Work item ${issueId} not found`);
+        }
+      }
+
+      logger.info(`Found ${issues.length} work items`);
+      return issues;
+    } finally {
+      logger.endGroup();
+    }
+  }
+
+  /**
+   * Fetches a batch of work items, omitting ones that don't exist
+   */
+  private async getWorkItems(ids: number[]): Promise<AzureWorkItem[]> {
+    const response = await this.client.post<AzureWorkItemsResponse>(
+      `/${encodeURIComponent(this.project)}/_apis/wit/workitemsbatch`,
+      {
+        ids,
+        fields: [...new Set([...BASE_FIELDS, this.pmField])],
+        errorPolicy: 'omit',
+      }
+    );
+
+    // With errorPolicy "omit", missing items come back as null entries
+    return response.data.value.filter((item) => item !== null);
+  }
+
+  /**
+   * Converts an Azure work item to generic Issue format
+   */
+  private convertToGenericIssue(workItem: AzureWorkItem): Issue {
+    const assignee = workItem.fields['System.AssignedTo'];
+    const iterationPath = workItem.fields['System.IterationPath'];
+    const pm = workItem.fields[this.pmField] as AzureIdentity | undefined;
+
+    return {
+      id: String(workItem.id),
+      key: `AB#${workItem.id}`,
+      summary: workItem.fields['System.Title'],
+      status: workItem.fields['System.State'],
+      assignee: assignee
+        ? {
+            name: assignee.displayName,
+            email: assignee.uniqueName,
+          }
+        : null,
+      sprint: iterationPath ? this.toSprint(iterationPath) : null,
+      sprints: iterationPath ? [this.toSprint(iterationPath)] : [],
+      cycle: null, // Azure Boards uses iterations, mapped to sprints
+      pmEmail: pm?.uniqueName?.includes('@') ? pm.uniqueName : null,
+      url: this.getIssueUrl(`AB#${workItem.id}`),
+    };
+  }
+
+  /**
+   * Maps an iteration path to the sprint shape
+   * Paths that aren't team iterations (e.g. the project root) count as closed
+   */
+  private toSprint(iterationPath: string): IssueSprint {
+    return {
+      name: iterationPath.split('\\').pop() ?? iterationPath,
+      state: this.iterationStates.get(iterationPath) ?? 'closed',
+    };
+  }
+
+  /**
+   * Checks if a work item is in the team's current iteration
+   */
+  isInActiveSprint(issue: Issue): boolean {
+    if (!issue.sprint) {
+      logger.debug(`Work item ${issue.key} has no iteration assigned`);
+      return false;
+    }
+
+    const isActive = issue.sprint.state === 'active';
+    logger.debug(
+      `Work item ${issue.key} iteration: ${issue.sprint.name} (${issue.sprint.state})`
+    );
+    return isActive;
+  }
+
+  /**
+   * Filters work items by state
+   */
+  filterByStatus(issues: Issue[], allowedStatuses?: string[]): Issue[] {
+    if (!allowedStatuses || allowedStatuses.length === 0) {
+      return issues;
+    }
+
+    const filtered = issues.filter((issue) =>
+      allowedStatuses.includes(issue.status)
+    );
+
+    logger.info(
+      `Filtered ${issues.length} work items to ${filtered.length} by state: ${allowedStatuses.join(', ')}`
+    );
+
+    return filtered;
+  }
+
+  /**
+   * Gets the PM email from the configured identity field
+   */
+  getPmEmail(issue: Issue): string | null {
+    return issue.pmEmail;
+  }
+
+  /**
+   * Constructs the URL for a work item
+   */
+  getIssueUrl(issueId: string): string {
+    const id = issueId.replace(/^AB#/, '');
+    return `${this.orgUrl}/${encodeURIComponent(this.project)}/_workitems/edit/${id}`;
+  }
+}
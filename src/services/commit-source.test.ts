@@ -0,0 +1,195 @@
+import * as github from '@actions/github';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { getDeploymentContext, getRevertedCommits } from './commit-source';
+import { Config, ConfigSchema } from '../types';
+
+// A linear history, oldest first
+const HISTORY = ['a1', 'b2', 'c3', 'd4', 'e5'].map((id) => id.repeat(20));
+const [A, B, C, D, E] = HISTORY;
+
+const createConfig = (overrides: Partial<Config> = {}): Config =>
+  ConfigSchema.parse({
+    environment: 'staging',
+    githubToken: 'token',
+    scanPullRequests: false,
+    ...overrides,
+  });
+
+describe('commit source', () => {
+  let server: http.Server;
+  let compared: string[];
+  const context = github.context;
+  const originalContext = { ...context };
+
+  beforeEach(async () => {
+    compared = [];
+    // The commit and compare APIs over HISTORY; unknown SHAs are a 404
+    server = http.createServer((request, response) => {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      if (url.pathname.startsWith('/repos/acme/app/commits/')) {
+        const ref = url.pathname.replace('/repos/acme/app/commits/', '');
+        const sha = HISTORY.find((candidate) => candidate.startsWith(ref));
+        response
+          .writeHead(sha ? 200 : 404, { 'Content-Type': 'application/json' })
+          .end(
+            JSON.stringify(
+              sha
+                ? {
+                    sha,
+                    commit: {
+                      message: `PROJ-1 Commit ${sha[0]}`,
+                      author: null,
+                    },
+                  }
+                : { message: 'Not Found' }
+            )
+          );
+        return;
+      }
+      const [base, head] = decodeURIComponent(
+        url.pathname.replace('/repos/acme/app/compare/', '')
+      ).split('...');
+      const from = HISTORY.indexOf(base);
+      const to = HISTORY.indexOf(head);
+      if (from === -1 || to === -1) {
+        response.writeHead(404).end(JSON.stringify({ message: 'Not Found' }));
+        return;
+      }
+      if (url.searchParams.get('per_page') !== '1') {
+        compared.push(`${base[0]}...${head[0]}`);
+      }
+      const commits = HISTORY.slice(from + 1, to + 1).map((sha) => ({
+        sha,
+        commit: { message: `Commit ${sha[0]}`, author: { name: 'Dev' } },
+      }));
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(
+        JSON.stringify({
+          status: from < to ? 'ahead' : from === to ? 'identical' : 'behind',
+          total_commits: commits.length,
+          commits,
+        })
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+
+    const getOctokit = github.getOctokit;
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    jest
+      .spyOn(github, 'getOctokit')
+      .mockImplementation((token) => getOctokit(token, { baseUrl }));
+
+    process.env.GITHUB_REPOSITORY = 'acme/app';
+    Object.assign(context, {
+      eventName: 'push',
+      ref: 'refs/heads/main',
+      sha: E,
+      actor: 'dev',
+      payload: { before: C, after: E, commits: [] },
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    Object.assign(context, originalContext);
+    delete process.env.GITHUB_REPOSITORY;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('getDeploymentContext', () => {
+    const commitIds = (deployment: { commits: Array<{ id: string }> }) =>
+      deployment.commits.map((commit) => commit.id);
+
+    it("reads the push's range without a previous scan", async () => {
+      const deployment = await getDeploymentContext(createConfig());
+
+      expect(commitIds(deployment)).toEqual([D, E]);
+      expect(deployment).toMatchObject({ branch: 'main', sha: E, baseSha: C });
+    });
+
+    it('starts after the last scanned commit when it is an ancestor', async () => {
+      const deployment = await getDeploymentContext(createConfig(), {
+        commitSha: A,
+      });
+
+      expect(commitIds(deployment)).toEqual([B, C, D, E]);
+      expect(deployment.baseSha).toBe(A);
+    });
+
+    it("falls back to the push's range when the last scanned commit isn't an ancestor", async () => {
+      const deployment = await getDeploymentContext(createConfig(), {
+        commitSha: 'f6'.repeat(20),
+      });
+
+      expect(compared).toEqual(['c...e']);
+      expect(deployment.baseSha).toBe(C);
+    });
+
+    it('scans the same range again when re-running an already scanned push', async () => {
+      const deployment = await getDeploymentContext(createConfig(), {
+        commitSha: E,
+        baseSha: B,
+      });
+
+      expect(commitIds(deployment)).toEqual([C, D, E]);
+      expect(deployment.baseSha).toBe(B);
+    });
+
+    it("re-runs an already scanned push from its own range when the scan's start is unknown", async () => {
+      const deployment = await getDeploymentContext(createConfig(), {
+        commitSha: E,
+      });
+
+      expect(commitIds(deployment)).toEqual([D, E]);
+    });
+
+    it('ignores the last scan with force_renotify', async () => {
+      const deployment = await getDeploymentContext(
+        createConfig({ forceRenotify: true }),
+        { commitSha: A }
+      );
+
+      expect(commitIds(deployment)).toEqual([D, E]);
+    });
+  });
+
+  describe('getRevertedCommits', () => {
+    const revert = (sha: string, revertedSha: string) => ({
+      id: sha,
+      message: `Revert "Add banner"\n\nThis reverts commit ${revertedSha.substring(0, 7)}.`,
+      author: { name: 'Dev', email: 'dev@example.com' },
+    });
+    const commit = (sha: string) => ({
+      id: sha,
+      message: 'PROJ-1 Add banner',
+      author: { name: 'Dev', email: 'dev@example.com' },
+    });
+
+    it('looks up reverted commits deployed before the range', async () => {
+      const reverted = await getRevertedCommits(createConfig(), [
+        commit(D),
+        revert(E, B),
+      ]);
+
+      expect(reverted).toEqual([
+        {
+          id: B,
+          message: 'PROJ-1 Commit b',
+          author: { name: '', email: '' },
+        },
+      ]);
+    });
+
+    it('skips commits reverted within the range and unknown ones', async () => {
+      const reverted = await getRevertedCommits(createConfig(), [
+        commit(D),
+        revert(E, D),
+        revert(E, 'f6'.repeat(20)),
+      ]);
+
+      expect(reverted).toEqual([]);
+    });
+  });
+});
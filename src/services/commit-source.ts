@@ -0,0 +1,664 @@
+import * as github from '@actions/github';
+import {
+  Config,
+  ConfigurationError,
+  GitCommit,
+  PullRequestInfo,
+  ScannedRange,
+} from '../types';
+import { getLocalCommit, getLocalCommits, isLocalAncestor } from '../utils/git';
+import { parseRevert } from '../utils/parser';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('CommitSource');
+
+// Push payloads list at most this many commits
+const PAYLOAD_COMMIT_LIMIT = 20;
+const COMPARE_PAGE_SIZE = 100;
+// One API call per commit, so large ranges are only partly scanned
+const MAX_PULL_REQUEST_LOOKUPS = 100;
+const MAX_REVERTED_COMMIT_LOOKUPS = 20;
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+type Context = typeof github.context;
+type AssociatedPullRequest = Awaited<
+  ReturnType<Octokit['rest']['repos']['listPullRequestsAssociatedWithCommit']>
+>['data'][number];
+
+/**
+ * What was deployed: the commits, and where they ended up
+ */
+export interface DeploymentContext {
+  commits: GitCommit[];
+  branch: string;
+  sha: string;
+  baseSha?: string; // pushes: the commit the range started after
+  actor: string;
+  repo: { owner: string; repo: string };
+}
+
+/**
+ * Maps a REST API commit to the push payload shape
+ */
+function toGitCommit(commit: {
+  sha: string;
+  commit: { message: string; author: { name?: string; email?: string } | null };
+}): GitCommit {
+  return {
+    id: commit.sha,
+    message: commit.commit.message,
+    author: {
+      name: commit.commit.author?.name ?? '',
+      email: commit.commit.author?.email ?? '',
+    },
+  };
+}
+
+/**
+ * Gets the environment of the deployment that triggered the run, if any
+ */
+export function getEventEnvironment(): string | undefined {
+  return github.context.payload.deployment?.environment;
+}
+
+/**
+ * Collects the deployed commits for the event that triggered the run
+ *
+ * - push: the commits since the last scanned SHA (or the push's `before`),
+ *   or the same range again when the last scan ended at the pushed commit
+ * - pull_request (merged): the PR's commits
+ * - release: the commits since the previous release
+ * - deployment / deployment_status (success): the commits since the
+ *   previous successful deployment to the same environment
+ * - workflow_run (success): the commits since the previous successful run
+ *   of the workflow on the same branch
+ */
+export async function getDeploymentContext(
+  config: Config,
+  lastScan?: ScannedRange
+): Promise<DeploymentContext> {
+  const deployment = await collectCommits(config, lastScan);
+
+  if (
+    config.scanPullRequests &&
+    config.githubToken &&
+    deployment.commits.length > 0
+  ) {
+    await attachPullRequests(
+      github.getOctokit(config.githubToken),
+      github.context,
+      deployment.commits
+    );
+  }
+
+  return deployment;
+}
+
+/**
+ * Gets the commits reverted in the range but deployed before it, so reverts
+ * naming only a SHA can be traced to their tickets
+ */
+export async function getRevertedCommits(
+  config: Config,
+  commits: GitCommit[]
+): Promise<GitCommit[]> {
+  const shas = new Set<string>();
+  for (const commit of commits) {
+    const { isRevert, revertedSha } = parseRevert(commit.message);
+    if (
+      isRevert &&
+      revertedSha &&
+      !commits.some((candidate) => candidate.id.startsWith(revertedSha))
+    ) {
+      shas.add(revertedSha);
+    }
+  }
+  if (shas.size > MAX_REVERTED_COMMIT_LOOKUPS) {
+    logger.warning(
+      `Looking up the latest ${MAX_REVERTED_COMMIT_LOOKUPS} of ${shas.size} reverted commits only`
+    );
+  }
+
+  const reverted: GitCommit[] = [];
+  for (const sha of [...shas].slice(-MAX_REVERTED_COMMIT_LOOKUPS)) {
+    if (!config.githubToken) {
+      const commit = await getLocalCommit(sha);
+      if (commit) {
+        reverted.push(commit);
+      }
+      continue;
+    }
+
+    try {
+      const [commit] = await getSingleCommit(
+        github.getOctokit(config.githubToken),
+        github.context,
+        sha
+      );
+      reverted.push(commit);
+    } catch (error) {
+      logger.warning(
+        `Failed to look up reverted commit ${sha.substring(0, 7)}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  // The triggering PR of pull_request events didn't bring these commits
+  if (
+    config.scanPullRequests &&
+    config.githubToken &&
+    !github.context.payload.pull_request &&
+    reverted.length > 0
+  ) {
+    await attachPullRequests(
+      github.getOctokit(config.githubToken),
+      github.context,
+      reverted
+    );
+  }
+  return reverted;
+}
+
+/**
+ * Collects the deployed commits for the triggering event
+ */
+async function collectCommits(
+  config: Config,
+  lastScan?: ScannedRange
+): Promise<DeploymentContext> {
+  const context = github.context;
+  const base: DeploymentContext = {
+    commits: [],
+    branch: context.ref.replace('refs/heads/', ''),
+    sha: context.sha,
+    actor: context.actor,
+    repo: context.repo,
+  };
+
+  logger.info(`Collecting commits for ${context.eventName} event`);
+
+  switch (context.eventName) {
+    case 'push':
+      return getPushCommits(config, context, base, lastScan);
+    case 'pull_request':
+    case 'pull_request_target':
+      return getPullRequestCommits(getOctokit(config), context, base);
+    case 'release':
+      return getReleaseCommits(getOctokit(config), context, base);
+    case 'deployment':
+    case 'deployment_status':
+      return getDeploymentCommits(getOctokit(config), context, base);
+    case 'workflow_run':
+      return getWorkflowRunCommits(getOctokit(config), context, base);
+    default:
+      logger.warning(
+        `Unsupported event ${context.eventName}, using the payload commits`
+      );
+      return { ...base, commits: context.payload.commits || [] };
+  }
+}
+
+/**
+ * Creates an Octokit client, which every non-push event needs
+ */
+function getOctokit(config: Config): Octokit {
+  if (!config.githubToken) {
+    throw new ConfigurationError(
+      `github_token is required for ${github.context.eventName} events`
+    );
+  }
+  return github.getOctokit(config.githubToken);
+}
+
+/**
+ * Gets the commits between two SHAs, oldest first
+ * Pages through the compare API, which otherwise stops at 250 commits
+ */
+async function compareCommits(
+  octokit: Octokit,
+  context: Context,
+  baseSha: string,
+  headSha: string
+): Promise<GitCommit[]> {
+  const commits: GitCommit[] = [];
+  for (let page = 1; ; page++) {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      ...context.repo,
+      basehead: `${baseSha}...${headSha}`,
+      per_page: COMPARE_PAGE_SIZE,
+      page,
+    });
+    commits.push(...data.commits.map(toGitCommit));
+
+    if (
+      data.commits.length < COMPARE_PAGE_SIZE ||
+      commits.length >= data.total_commits
+    ) {
+      break;
+    }
+  }
+
+  logger.info(
+    `Found ${commits.length} commit(s) between ${baseSha.substring(0, 7)} and ${headSha.substring(0, 7)}`
+  );
+  return commits;
+}
+
+/**
+ * Checks that a stored SHA is an ancestor of head, so the range between
+ * them is what the push deployed; force pushes and other branches leave
+ * SHAs that aren't
+ */
+async function isAncestor(
+  config: Config,
+  context: Context,
+  baseSha: string,
+  headSha: string
+): Promise<boolean> {
+  if (!config.githubToken) {
+    return (await isLocalAncestor(baseSha, headSha)) ?? false;
+  }
+
+  try {
+    const { data } = await github
+      .getOctokit(config.githubToken)
+      .rest.repos.compareCommitsWithBasehead({
+        ...context.repo,
+        basehead: `${baseSha}...${headSha}`,
+        per_page: 1,
+      });
+    return data.status === 'ahead';
+  } catch (error) {
+    logger.warning(
+      `Failed to compare ${baseSha.substring(0, 7)} with ${headSha.substring(0, 7)}: ${(error as Error).message}`
+    );
+    return false;
+  }
+}
+
+/**
+ * Gets the pushed commits
+ *
+ * The range starts at the last SHA scanned in the environment, when it is
+ * an ancestor of the pushed commit, or the push's `before`, and is read
+ * through the compare API, then the local checkout. The payload's own list,
+ * capped at 20 commits, is the last resort.
+ */
+async function getPushCommits(
+  config: Config,
+  context: Context,
+  base: DeploymentContext,
+  lastScan?: ScannedRange
+): Promise<DeploymentContext> {
+  const payloadCommits: GitCommit[] = context.payload.commits || [];
+  const head: string = context.payload.after || context.sha;
+  const before: string | undefined = context.payload.before;
+
+  // A re-run of an already scanned push covers the same range again, as
+  // does a re-run with force_renotify
+  let baseSha: string | undefined;
+  let lastSha = lastScan?.commitSha;
+  if (lastSha === head) {
+    logger.info(
+      'Already scanned up to the pushed commit, scanning its range again'
+    );
+    lastSha = lastScan?.baseSha;
+  }
+  if (lastSha && !config.forceRenotify) {
+    if (await isAncestor(config, context, lastSha, head)) {
+      logger.info(
+        `Starting after the previously scanned commit ${lastSha.substring(0, 7)}`
+      );
+      baseSha = lastSha;
+    } else {
+      logger.info(
+        `The previously scanned commit ${lastSha.substring(0, 7)} is not an ancestor of ${head.substring(0, 7)}, starting from the push`
+      );
+    }
+  }
+  if (!baseSha && before && !/^0+$/.test(before)) {
+    baseSha = before;
+  }
+
+  if (!baseSha) {
+    // New branches have no "before", the payload is all there is
+    return { ...base, sha: head, commits: payloadCommits };
+  }
+
+  if (config.githubToken) {
+    try {
+      const commits = await compareCommits(
+        github.getOctokit(config.githubToken),
+        context,
+        baseSha,
+        head
+      );
+      return { ...base, sha: head, baseSha, commits };
+    } catch (error) {
+      logger.warning(`Failed to compare commits: ${(error as Error).message}`);
+    }
+  }
+
+  const localCommits = await getLocalCommits(baseSha, head);
+  if (localCommits) {
+    logger.info(`Found ${localCommits.length} commit(s) in the local checkout`);
+    return { ...base, sha: head, baseSha, commits: localCommits };
+  }
+
+  if (payloadCommits.length >= PAYLOAD_COMMIT_LIMIT) {
+    logger.warning(
+      `Using the ${payloadCommits.length} commit(s) in the push payload, which GitHub caps at ${PAYLOAD_COMMIT_LIMIT}; tickets in older commits may be missed`
+    );
+  }
+  return { ...base, sha: head, baseSha, commits: payloadCommits };
+}
+
+/**
+ * Maps a REST API pull request
+ */
+function toPullRequestInfo(
+  pullRequest: Pick<
+    AssociatedPullRequest,
+    'number' | 'title' | 'body' | 'html_url'
+  > & { head: Pick<AssociatedPullRequest['head'], 'ref'> }
+): PullRequestInfo {
+  return {
+    number: pullRequest.number,
+    title: pullRequest.title,
+    body: pullRequest.body ?? '',
+    branch: pullRequest.head.ref,
+    url: pullRequest.html_url,
+  };
+}
+
+/**
+ * Attaches the merged pull request(s) each commit came through, so ticket
+ * IDs in PR titles, bodies and branch names are found too
+ */
+async function attachPullRequests(
+  octokit: Octokit,
+  context: Context,
+  commits: GitCommit[]
+): Promise<void> {
+  // The triggering PR is known, one lookup covers every commit
+  const eventPullRequest = context.payload.pull_request;
+  if (eventPullRequest) {
+    try {
+      const { data } = await octokit.rest.pulls.get({
+        ...context.repo,
+        pull_number: eventPullRequest.number,
+      });
+      const info = toPullRequestInfo(data);
+      commits.forEach((commit) => (commit.pullRequests = [info]));
+    } catch (error) {
+      logger.warning(
+        `Failed to look up pull request #${eventPullRequest.number}: ${(error as Error).message}`
+      );
+    }
+    return;
+  }
+
+  if (commits.length > MAX_PULL_REQUEST_LOOKUPS) {
+    logger.warning(
+      `Looking up pull requests for the latest ${MAX_PULL_REQUEST_LOOKUPS} of ${commits.length} commits only`
+    );
+  }
+
+  let found = 0;
+  for (const commit of commits.slice(-MAX_PULL_REQUEST_LOOKUPS)) {
+    try {
+      const { data } =
+        await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+          ...context.repo,
+          commit_sha: commit.id,
+        });
+      // Open PRs can contain the commit too, only merged ones shipped it
+      commit.pullRequests = data
+        .filter((pullRequest) => pullRequest.merged_at)
+        .map(toPullRequestInfo);
+      found += commit.pullRequests.length;
+    } catch (error) {
+      logger.warning(
+        `Failed to look up pull requests for ${commit.id.substring(0, 7)}: ${(error as Error).message}`
+      );
+    }
+  }
+  logger.info(`Found ${found} pull request association(s) for ${commits.length} commit(s)`);
+}
+
+/**
+ * Gets a single commit, when there is nothing to compare against
+ */
+async function getSingleCommit(
+  octokit: Octokit,
+  context: Context,
+  sha: string
+): Promise<GitCommit[]> {
+  const { data } = await octokit.rest.repos.getCommit({
+    ...context.repo,
+    ref: sha,
+  });
+  return [toGitCommit(data)];
+}
+
+/**
+ * Gets the commits of a merged pull request
+ */
+async function getPullRequestCommits(
+  octokit: Octokit,
+  context: Context,
+  base: DeploymentContext
+): Promise<DeploymentContext> {
+  const pullRequest = context.payload.pull_request;
+  if (!pullRequest?.merged) {
+    logger.info('Pull request is not merged, nothing was deployed');
+    return base;
+  }
+
+  const commits = await octokit.paginate(octokit.rest.pulls.listCommits, {
+    ...context.repo,
+    pull_number: pullRequest.number,
+    per_page: 100,
+  });
+  logger.info(`Found ${commits.length} commit(s) in PR #${pullRequest.number}`);
+
+  return {
+    ...base,
+    commits: commits.map(toGitCommit),
+    branch: pullRequest.base.ref,
+    sha: pullRequest.merge_commit_sha ?? base.sha,
+  };
+}
+
+/**
+ * Gets the commits between the previous release tag and this one
+ */
+async function getReleaseCommits(
+  octokit: Octokit,
+  context: Context,
+  base: DeploymentContext
+): Promise<DeploymentContext> {
+  const release = context.payload.release;
+  if (!release) {
+    return base;
+  }
+
+  // The previous published release of the same kind (prerelease or not)
+  const releases = await octokit.paginate(octokit.rest.repos.listReleases, {
+    ...context.repo,
+    per_page: 100,
+  });
+  const previous = releases
+    .filter(
+      (candidate) =>
+        !candidate.draft &&
+        candidate.id !== release.id &&
+        (release.prerelease || !candidate.prerelease) &&
+        candidate.published_at &&
+        candidate.published_at < release.published_at
+    )
+    .sort((a, b) => (b.published_at ?? '').localeCompare(a.published_at ?? ''))[0];
+
+  const result = {
+    ...base,
+    branch: release.target_commitish,
+  };
+
+  if (!previous) {
+    logger.warning(
+      `No release before ${release.tag_name}, using only its tagged commit`
+    );
+    return {
+      ...result,
+      commits: await getSingleCommit(octokit, context, release.tag_name),
+    };
+  }
+
+  logger.info(`Comparing release ${previous.tag_name}...${release.tag_name}`);
+  return {
+    ...result,
+    commits: await compareCommits(
+      octokit,
+      context,
+      previous.tag_name,
+      release.tag_name
+    ),
+  };
+}
+
+/**
+ * Gets the commits since the previous successful deployment to the same
+ * environment
+ */
+async function getDeploymentCommits(
+  octokit: Octokit,
+  context: Context,
+  base: DeploymentContext
+): Promise<DeploymentContext> {
+  const deployment = context.payload.deployment;
+  if (!deployment) {
+    return base;
+  }
+
+  const state = context.payload.deployment_status?.state;
+  if (context.eventName === 'deployment_status' && state !== 'success') {
+    logger.info(`Deployment status is ${state}, nothing was deployed`);
+    return base;
+  }
+
+  const result = {
+    ...base,
+    branch: deployment.ref,
+    sha: deployment.sha,
+  };
+
+  const previousSha = await findPreviousDeploymentSha(
+    octokit,
+    context,
+    deployment.id,
+    deployment.environment
+  );
+  if (!previousSha) {
+    logger.warning(
+      `No earlier successful deployment to ${deployment.environment}, using only the deployed commit`
+    );
+    return {
+      ...result,
+      commits: await getSingleCommit(octokit, context, deployment.sha),
+    };
+  }
+
+  return {
+    ...result,
+    commits: await compareCommits(octokit, context, previousSha, deployment.sha),
+  };
+}
+
+/**
+ * Finds the SHA of the latest successful deployment to an environment
+ * before the given one
+ */
+async function findPreviousDeploymentSha(
+  octokit: Octokit,
+  context: Context,
+  deploymentId: number,
+  environment: string
+): Promise<string | undefined> {
+  // Deployments are listed newest first
+  const { data: deployments } = await octokit.rest.repos.listDeployments({
+    ...context.repo,
+    environment,
+    per_page: 30,
+  });
+
+  for (const candidate of deployments) {
+    if (candidate.id >= deploymentId) {
+      continue;
+    }
+    const { data: statuses } = await octokit.rest.repos.listDeploymentStatuses({
+      ...context.repo,
+      deployment_id: candidate.id,
+      per_page: 1,
+    });
+    if (statuses[0]?.state === 'success') {
+      return candidate.sha;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gets the commits since the previous successful run of the same workflow
+ * on the same branch
+ */
+async function getWorkflowRunCommits(
+  octokit: Octokit,
+  context: Context,
+  base: DeploymentContext
+): Promise<DeploymentContext> {
+  const run = context.payload.workflow_run;
+  if (!run) {
+    return base;
+  }
+  if (run.conclusion !== 'success') {
+    logger.info(`Workflow run concluded with ${run.conclusion}, nothing was deployed`);
+    return base;
+  }
+
+  const result = {
+    ...base,
+    branch: run.head_branch,
+    sha: run.head_sha,
+  };
+
+  const { data } = await octokit.rest.actions.listWorkflowRuns({
+    ...context.repo,
+    workflow_id: run.workflow_id,
+    branch: run.head_branch,
+    status: 'success',
+    per_page: 20,
+  });
+  const previous = data.workflow_runs.find(
+    (candidate) => candidate.id !== run.id && candidate.created_at < run.created_at
+  );
+
+  if (!previous) {
+    logger.warning(
+      `No earlier successful run of ${run.name} on ${run.head_branch}, using only its head commit`
+    );
+    return {
+      ...result,
+      commits: await getSingleCommit(octokit, context, run.head_sha),
+    };
+  }
+
+  return {
+    ...result,
+    commits: await compareCommits(
+      octokit,
+      context,
+      previous.head_sha,
+      run.head_sha
+    ),
+  };
+}
@@ -0,0 +1,127 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DiscordService } from './discord';
+import { DeploymentMetadata, DiscordEmbed, NotificationData } from '../types';
+
+interface ReceivedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: { embeds: DiscordEmbed[] };
+}
+
+const notifications: NotificationData[] = [
+  {
+    ticket: 'PROJ-1',
+    summary: 'Add checkout button',
+    status: 'In Review',
+    sprint: 'Sprint 1',
+    cycle: null,
+    url: 'https://acme.atlassian.net/browse/PROJ-1',
+    assignee: 'Ada',
+  },
+];
+
+const metadata: DeploymentMetadata = {
+  branch: 'main',
+  environment: 'staging',
+  deployedBy: 'dev',
+  commitSha: 'abc1234def5678',
+  repoUrl: 'https://github.com/acme/app',
+};
+
+describe('DiscordService', () => {
+  let server: http.Server;
+  let webhookUrl: string;
+  let requests: ReceivedRequest[];
+  let status: number;
+
+  beforeEach(async () => {
+    requests = [];
+    status = 200;
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        requests.push({
+          method: request.method ?? 'POST',
+          path: url.pathname,
+          query: Object.fromEntries(url.searchParams),
+          body: JSON.parse(body),
+        });
+        response
+          .writeHead(status, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify({ id: 'message-1' }));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/1/token`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('posts an embed to the configured webhook and returns the message id', async () => {
+    const service = new DiscordService({ webhookUrl });
+    const id = await service.sendNotification(
+      'webhook',
+      notifications,
+      metadata
+    );
+
+    expect(id).toBe('message-1');
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({
+      method: 'POST',
+      path: '/api/webhooks/1/token',
+      query: { wait: 'true' },
+    });
+    const [embed] = requests[0].body.embeds;
+    expect(embed.description).toContain(
+      '[PROJ-1](https://acme.atlassian.net/browse/PROJ-1)'
+    );
+    expect(embed.fields).toContainEqual({
+      name: 'Environment',
+      value: 'staging',
+      inline: true,
+    });
+  });
+
+  it('edits the webhook message on update and colours rollbacks', async () => {
+    const service = new DiscordService();
+    await service.updateNotification(
+      `${webhookUrl}/`,
+      'message-1',
+      notifications,
+      { ...metadata, rollback: true }
+    );
+
+    expect(requests[0]).toMatchObject({
+      method: 'PATCH',
+      path: '/api/webhooks/1/token/messages/message-1',
+    });
+    expect(requests[0].body.embeds[0].color).toBe(0xed4245);
+  });
+
+  it('wraps failed requests in a WebhookError', async () => {
+    status = 400;
+    const service = new DiscordService({ webhookUrl });
+
+    await expect(
+      service.sendNotification('webhook', notifications, metadata)
+    ).rejects.toMatchObject({ name: 'WebhookError', statusCode: 400 });
+  });
+
+  it('rejects the webhook target without a configured URL', async () => {
+    const service = new DiscordService();
+
+    await expect(
+      service.sendNotification('webhook', notifications, metadata)
+    ).rejects.toThrow('discord_webhook_url is not configured');
+    expect(requests).toHaveLength(0);
+  });
+});
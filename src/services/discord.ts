@@ -0,0 +1,170 @@
+import axios from 'axios';
+import {
+  DiscordEmbed,
+  NotificationData,
+  DeploymentMetadata,
+  Notifier,
+  WebhookError,
+} from '../types';
+import { createLogger } from '../utils/logger';
+import {
+  getNotificationSections,
+  getNotificationTitle,
+  getPullRequestText,
+  getTicketCountText,
+  getTicketDetailsText,
+  getTicketTitle,
+} from '../utils/sections';
+
+const logger = createLogger('DiscordService');
+
+// Discord limits: 4096 characters per embed description
+const MAX_DESCRIPTION_LENGTH = 4096;
+const EMBED_COLOR = 0x5865f2;
+const ROLLBACK_EMBED_COLOR = 0xed4245;
+
+export interface DiscordServiceOptions {
+  webhookUrl?: string; // addressed as the "webhook" target
+}
+
+/**
+ * Posts deployment notifications as Discord embeds via webhooks
+ * Targets are "webhook" (the configured discord_webhook_url) or a webhook URL
+ */
+export class DiscordService implements Notifier {
+  private webhookUrl?: string;
+
+  constructor(options: DiscordServiceOptions = {}) {
+    this.webhookUrl = options.webhookUrl;
+  }
+
+  /**
+   * Creates the embed for a deployment notification
+   */
+  private createEmbed(
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): DiscordEmbed {
+    const formatTicket = (notification: NotificationData) => {
+      const pullRequestText = getPullRequestText(
+        notification,
+        (pr) => `[#${pr.number}](${pr.url})`
+      );
+      return `${getTicketTitle(notification, `**[${notification.ticket}](${notification.url})**`)}\n${getTicketDetailsText(notification)}${pullRequestText}`;
+    };
+
+    const sections = getNotificationSections(notifications, metadata).map(
+      (section) =>
+        `__**${section.title}**__\n\n${section.notifications.map(formatTicket).join('\n\n')}`
+    );
+
+    let description = sections.join('\n\n');
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      description = `${description.substring(0, MAX_DESCRIPTION_LENGTH - 1)}…`;
+    }
+
+    return {
+      title: getNotificationTitle(metadata),
+      description,
+      color: metadata.rollback ? ROLLBACK_EMBED_COLOR : EMBED_COLOR,
+      fields: [
+        { name: 'Branch', value: metadata.branch, inline: true },
+        { name: 'Environment', value: metadata.environment, inline: true },
+        { name: 'Deployed by', value: metadata.deployedBy, inline: true },
+        {
+          name: 'Commit',
+          value: `[${metadata.commitSha.substring(0, 7)}](${metadata.repoUrl}/commit/${metadata.commitSha})`,
+          inline: true,
+        },
+      ],
+      footer: {
+        text: getTicketCountText(notifications.length, metadata),
+      },
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Sends a notification and returns the Discord message id
+   */
+  async sendNotification(
+    target: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined> {
+    const url = this.resolveUrl(target);
+
+    try {
+      // wait=true makes Discord return the created message
+      const response = await axios.post<{ id: string }>(
+        url,
+        { embeds: [this.createEmbed(notifications, metadata)] },
+        { params: { wait: true }, timeout: 30000 }
+      );
+
+      logger.info(`Message sent successfully (id: ${response.data.id})`);
+      return response.data.id;
+    } catch (error) {
+      throw this.toError('Failed to send Discord notification', error);
+    }
+  }
+
+  /**
+   * Edits a previously sent webhook message
+   */
+  async updateNotification(
+    target: string,
+    messageId: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<void> {
+    const url = this.resolveUrl(target);
+
+    try {
+      await axios.patch(
+        `${url}/messages/${messageId}`,
+        { embeds: [this.createEmbed(notifications, metadata)] },
+        { timeout: 30000 }
+      );
+      logger.info(`Message updated successfully (id: ${messageId})`);
+    } catch (error) {
+      throw this.toError('Failed to update Discord notification', error);
+    }
+  }
+
+  /**
+   * Discord webhooks can't look up users by email
+   */
+  async getUserIdByEmail(_email: string): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * Resolves a target to the webhook URL
+   */
+  private resolveUrl(target: string): string {
+    if (target === 'webhook') {
+      if (!this.webhookUrl) {
+        throw new WebhookError('discord_webhook_url is not configured');
+      }
+      return this.webhookUrl;
+    }
+
+    if (!/^https?:\/\//.test(target)) {
+      throw new WebhookError(`Invalid Discord webhook target: ${target}`);
+    }
+    return target.replace(/\/$/, '');
+  }
+
+  /**
+   * Logs and wraps an HTTP error
+   */
+  private toError(message: string, error: unknown): WebhookError {
+    logger.error(message, error as Error);
+    return new WebhookError(
+      `${message}: ${(error as Error).message}`,
+      axios.isAxiosError(error) ? error.response?.status : undefined,
+      axios.isAxiosError(error) ? error.response?.data : undefined
+    );
+  }
+}
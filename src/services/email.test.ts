@@ -0,0 +1,159 @@
+import * as net from 'net';
+import { EmailService } from './email';
+import { DeploymentMetadata, NotificationData } from '../types';
+
+interface ReceivedMail {
+  from: string;
+  recipients: string[];
+  data: string;
+}
+
+/**
+ * A minimal SMTP server standing in for a mail relay
+ * Recipients at reject.example.com are refused
+ */
+function createSmtpServer(mails: ReceivedMail[]): net.Server {
+  return net.createServer((socket) => {
+    let mail: ReceivedMail = { from: '', recipients: [], data: '' };
+    let readingData = false;
+    let buffer = '';
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 localhost ESMTP stand-in');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+
+      if (readingData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) {
+          return;
+        }
+        mail.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        readingData = false;
+        mails.push(mail);
+        mail = { from: '', recipients: [], data: '' };
+        reply('250 OK: queued');
+      }
+
+      let newline: number;
+      while (!readingData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250 localhost');
+        } else if (command === 'MAIL') {
+          mail.from = /<(.*)>/.exec(line)?.[1] ?? '';
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          const recipient = /<(.*)>/.exec(line)?.[1] ?? '';
+          if (recipient.endsWith('@reject.example.com')) {
+            reply('550 No such user');
+          } else {
+            mail.recipients.push(recipient);
+            reply('250 OK');
+          }
+        } else if (command === 'DATA') {
+          readingData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+  });
+}
+
+const notifications: NotificationData[] = [
+  {
+    ticket: 'PROJ-1',
+    summary: 'Add checkout button',
+    status: 'In Review',
+    sprint: 'Sprint 1',
+    cycle: null,
+    url: 'https://acme.atlassian.net/browse/PROJ-1',
+    assignee: 'Ada',
+  },
+];
+
+const metadata: DeploymentMetadata = {
+  branch: 'main',
+  environment: 'staging',
+  deployedBy: 'dev',
+  commitSha: 'abc1234def5678',
+  repoUrl: 'https://github.com/acme/app',
+};
+
+describe('EmailService', () => {
+  let server: net.Server;
+  let port: number;
+  let mails: ReceivedMail[];
+
+  beforeEach(async () => {
+    mails = [];
+    server = createSmtpServer(mails);
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createService = () =>
+    new EmailService({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      from: 'deploys@example.com',
+    });
+
+  it('sends the deployment as a text and HTML email', async () => {
+    const messageId = await createService().sendNotification(
+      'pm@example.com',
+      notifications,
+      metadata
+    );
+
+    expect(messageId).toMatch(/^<.+>$/);
+    expect(mails).toHaveLength(1);
+    expect(mails[0].from).toBe('deploys@example.com');
+    expect(mails[0].recipients).toEqual(['pm@example.com']);
+    expect(mails[0].data).toContain(
+      'Subject: [staging] 1 ticket ready for testing'
+    );
+    expect(mails[0].data).toContain('Content-Type: text/plain');
+    expect(mails[0].data).toContain('Content-Type: text/html');
+    expect(mails[0].data).toContain('PROJ-1 - Add checkout button');
+  });
+
+  it('uses a rollback subject for rollbacks', async () => {
+    await createService().sendNotification('pm@example.com', notifications, {
+      ...metadata,
+      rollback: true,
+    });
+
+    expect(mails[0].data).toContain('Subject: [staging] 1 ticket rolled back');
+  });
+
+  it('fails with the SMTP response when the recipient is refused', async () => {
+    await expect(
+      createService().sendNotification(
+        'pm@reject.example.com',
+        notifications,
+        metadata
+      )
+    ).rejects.toMatchObject({
+      name: 'EmailError',
+      response: expect.stringContaining('550 No such user'),
+    });
+    expect(mails).toHaveLength(0);
+  });
+});
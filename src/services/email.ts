@@ -0,0 +1,199 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import {
+  NotificationData,
+  DeploymentMetadata,
+  Notifier,
+  EmailError,
+} from '../types';
+import { createLogger } from '../utils/logger';
+import {
+  getNotificationSections,
+  getNotificationTitle,
+  getPullRequestText,
+  getTicketCountText,
+  getTicketDetailsText,
+  getTicketTitle,
+} from '../utils/sections';
+
+const logger = createLogger('EmailService');
+
+export interface EmailServiceOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS; otherwise STARTTLS is used when offered
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Escapes text for inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Sends deployment notifications as HTML + plain-text email over SMTP
+ * Targets are email addresses
+ */
+export class EmailService implements Notifier {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: EmailServiceOptions) {
+    this.from = options.from;
+
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      // Local stand-ins like MailHog accept unauthenticated mail
+      auth: options.username
+        ? { user: options.username, pass: options.password }
+        : undefined,
+    });
+  }
+
+  /**
+   * Gets the " | PR #1, #2" links for a ticket
+   */
+  private getPullRequestHtml(notification: NotificationData): string {
+    return getPullRequestText(
+      notification,
+      (pr) => `<a href="${escapeHtml(pr.url)}">#${pr.number}</a>`
+    );
+  }
+
+  /**
+   * Creates the plain-text body
+   */
+  private createText(
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): string {
+    const lines = [
+      getNotificationTitle(metadata),
+      '',
+      `Branch: ${metadata.branch}`,
+      `Environment: ${metadata.environment}`,
+      `Deployed by: ${metadata.deployedBy}`,
+      `Commit: ${metadata.repoUrl}/commit/${metadata.commitSha}`,
+    ];
+
+    for (const section of getNotificationSections(notifications, metadata)) {
+      lines.push('', `${section.title}:`);
+
+      for (const notification of section.notifications) {
+        lines.push(
+          '',
+          getTicketTitle(notification),
+          getTicketDetailsText(notification),
+          notification.url,
+          ...(notification.pullRequests ?? []).map(
+            (pr) => `PR #${pr.number}: ${pr.url}`
+          )
+        );
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Creates the HTML body
+   */
+  private createHtml(
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): string {
+    const commitUrl = `${metadata.repoUrl}/commit/${metadata.commitSha}`;
+    const renderTickets = (tickets: NotificationData[]) =>
+      tickets
+        .map(
+          (notification) => `
+      <li style="margin-bottom: 12px;">
+        <a href="${escapeHtml(notification.url)}"><strong>${escapeHtml(notification.ticket)}</strong></a> - ${escapeHtml(notification.summary)}<br>
+        <span style="color: #666;">${escapeHtml(getTicketDetailsText(notification))}${this.getPullRequestHtml(notification)}</span>
+      </li>`
+        )
+        .join('');
+    const sections = getNotificationSections(notifications, metadata)
+      .map(
+        (section) => `
+    <h3>${section.title}:</h3>
+    <ul>${renderTickets(section.notifications)}
+    </ul>`
+      )
+      .join('');
+
+    return `<!DOCTYPE html>
+<html>
+  <body style="font-family: sans-serif;">
+    <h2>${escapeHtml(getNotificationTitle(metadata))}</h2>
+    <table>
+      <tr><td><strong>Branch:</strong></td><td>${escapeHtml(metadata.branch)}</td></tr>
+      <tr><td><strong>Environment:</strong></td><td>${escapeHtml(metadata.environment)}</td></tr>
+      <tr><td><strong>Deployed by:</strong></td><td>${escapeHtml(metadata.deployedBy)}</td></tr>
+      <tr><td><strong>Commit:</strong></td><td><a href="${escapeHtml(commitUrl)}">${metadata.commitSha.substring(0, 7)}</a></td></tr>
+    </table>${sections}
+    <p style="color: #666; font-size: small;">${getTicketCountText(notifications.length, metadata)} at ${new Date().toISOString()}</p>
+  </body>
+</html>`;
+  }
+
+  /**
+   * Emails a notification to an address
+   * @returns The Message-ID of the sent email
+   */
+  async sendNotification(
+    target: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: this.from,
+        to: target,
+        subject: metadata.rollback
+          ? `[${metadata.environment}] ${getTicketCountText(notifications.length, metadata)}`
+          : `[${metadata.environment}] ${notifications.length} ticket${notifications.length !== 1 ? 's' : ''} ready for testing`,
+        text: this.createText(notifications, metadata),
+        html: this.createHtml(notifications, metadata),
+      });
+
+      logger.info(`Email sent successfully (id: ${info.messageId})`);
+      return info.messageId;
+    } catch (error) {
+      logger.error('Failed to send email notification', error as Error);
+      throw new EmailError(
+        `SMTP error: ${(error as Error).message}`,
+        (error as { code?: string }).code,
+        (error as { response?: unknown }).response
+      );
+    }
+  }
+
+  /**
+   * Sent email can't be edited
+   */
+  async updateNotification(
+    _target: string,
+    _messageId: string,
+    _notifications: NotificationData[],
+    _metadata: DeploymentMetadata
+  ): Promise<void> {
+    logger.warning('Email notifications cannot be updated');
+  }
+
+  /**
+   * Email targets are the addresses themselves
+   */
+  async getUserIdByEmail(email: string): Promise<string | null> {
+    return email;
+  }
+}
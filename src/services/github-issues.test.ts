@@ -0,0 +1,118 @@
+import * as github from '@actions/github';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GitHubIssuesService } from './github-issues';
+import { GitHubIssue } from '../types';
+
+interface GraphQLRequest {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+const today = new Date().toISOString().slice(0, 10);
+
+const githubIssue = (number: number): GitHubIssue => ({
+  id: `I_${number}`,
+  number,
+  title: `Issue ${number}`,
+  url: `https://github.com/acme/app/issues/${number}`,
+  state: 'OPEN',
+  assignees: {
+    nodes: [{ login: 'dev', name: 'Dev', email: 'dev@example.com' }],
+  },
+  projectItems: {
+    nodes: [
+      {
+        project: { title: 'Roadmap' },
+        fieldValues: {
+          nodes: [
+            {
+              __typename: 'ProjectV2ItemFieldIterationValue',
+              title: 'Iteration 4',
+              startDate: today,
+              duration: 14,
+              iterationId: 'it-4',
+              field: { name: 'Iteration' },
+            },
+            {
+              __typename: 'ProjectV2ItemFieldSingleSelectValue',
+              name: 'In Review',
+              field: { name: 'Status' },
+            },
+            {
+              __typename: 'ProjectV2ItemFieldTextValue',
+              text: 'pm@example.com',
+              field: { name: 'PM' },
+            },
+          ],
+        },
+      },
+    ],
+  },
+});
+
+describe('GitHubIssuesService', () => {
+  let server: http.Server;
+  let requests: GraphQLRequest[];
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        requests.push(JSON.parse(body));
+        // #2 is a pull request, which GitHub reports as a partial error
+        response.writeHead(200, { 'Content-Type': 'application/json' }).end(
+          JSON.stringify({
+            data: { repository: { i1: githubIssue(1), i2: null } },
+            errors: [{ type: 'NOT_FOUND', path: ['repository', 'i2'] }],
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+
+    const getOctokit = github.getOctokit;
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    jest
+      .spyOn(github, 'getOctokit')
+      .mockImplementation((token) => getOctokit(token, { baseUrl }));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('fetches the issues of a repository in one aliased query', async () => {
+    const service = new GitHubIssuesService('token', { pmField: 'PM' });
+    const issues = await service.getIssues(['acme/app#1', 'acme/app#2']);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].variables).toEqual({ owner: 'acme', name: 'app' });
+    expect(requests[0].query).toContain('i1: issue(number: 1)');
+    expect(requests[0].query).toContain('i2: issue(number: 2)');
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      key: 'acme/app#1',
+      status: 'In Review',
+      sprint: { name: 'Iteration 4', state: 'active' },
+      pmEmail: 'pm@example.com',
+    });
+    expect(service.isInActiveSprint(issues[0])).toBe(true);
+  });
+
+  it('falls back to the assignee without a PM field', async () => {
+    const service = new GitHubIssuesService('token');
+    const [issue] = await service.getIssues(['acme/app#1']);
+
+    expect(issue.pmEmail).toBe('dev@example.com');
+    expect(service.getIssueUrl('acme/app#1')).toBe(
+      'https://github.com/acme/app/issues/1'
+    );
+  });
+});
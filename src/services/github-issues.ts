@@ -0,0 +1,376 @@
+import * as github from '@actions/github';
+import {
+  GitHubIssue,
+  GitHubProjectFieldValue,
+  GitHubApiError,
+  Issue,
+  IssueSprint,
+  IssueTrackerService,
+} from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('GitHubIssuesService');
+
+// Issues fetched per aliased GraphQL query
+const BATCH_SIZE = 25;
+
+const ISSUE_FIELDS = `
+  fragment IssueFields on Issue {
+    id
+    number
+    title
+    url
+    state
+    assignees(first: 10) {
+      nodes {
+        login
+        name
+        email
+      }
+    }
+    projectItems(first: 10) {
+      nodes {
+        project {
+          title
+        }
+        fieldValues(first: 30) {
+          nodes {
+            __typename
+            ... on ProjectV2ItemFieldIterationValue {
+              title
+              startDate
+              duration
+              iterationId
+              field {
+                ... on ProjectV2FieldCommon {
+                  name
+                }
+              }
+            }
+            ... on ProjectV2ItemFieldSingleSelectValue {
+              name
+              field {
+                ... on ProjectV2FieldCommon {
+                  name
+                }
+              }
+            }
+            ... on ProjectV2ItemFieldTextValue {
+              text
+              field {
+                ... on ProjectV2FieldCommon {
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface GitHubIssuesServiceOptions {
+  pmField?: string; // Projects v2 field holding the PM email or login
+}
+
+export class GitHubIssuesService implements IssueTrackerService {
+  private octokit: Octokit;
+  private pmField?: string;
+  private userEmails = new Map<string, Promise<string | null>>();
+
+  constructor(token: string, options: GitHubIssuesServiceOptions = {}) {
+    this.octokit = github.getOctokit(token);
+    this.pmField = options.pmField;
+  }
+
+  /**
+   * Gets issues by reference (owner/repo#123), batched per repository
+   */
+  async getIssues(issueIds: string[]): Promise<Issue[]> {
+    if (issueIds.length === 0) {
+      return [];
+    }
+
+    logger.group(`Fetching ${issueIds.length} issues from GitHub`);
+    try {
+      // Group issue numbers by repository
+      const numbersByRepo = new Map<string, number[]>();
+      for (const issueId of issueIds) {
+        const [repo, number] = issueId.split('#');
+        const numbers = numbersByRepo.get(repo) ?? [];
+        numbers.push(Number(number));
+        numbersByRepo.set(repo, numbers);
+      }
+
+      const issues: Issue[] = [];
+      for (const [repo, numbers] of numbersByRepo) {
+        for (let i = 0; i < numbers.length; i += BATCH_SIZE) {
+          const githubIssues = await this.getRepoIssues(
+            repo,
+            numbers.slice(i, i + BATCH_SIZE)
+          );
+          for (const githubIssue of githubIssues) {
+            issues.push(await this.convertToGenericIssue(repo, githubIssue));
+          }
+        }
+      }
+
+      logger.info(`Found ${issues.length} issues`);
+      return issues;
+    } finally {
+      logger.endGroup();
+    }
+  }
+
+  /**
+   * Fetches several issues of one repository in a single aliased query
+   * Numbers that are pull requests or don't exist are reported and skipped
+   */
+  private async getRepoIssues(
+    repo: string,
+    numbers: number[]
+  ): Promise<GitHubIssue[]> {
+    const [owner, name] = repo.split('/');
+    const aliases = numbers
+      .map((number) => `i${number}: issue(number: ${number}) { ...IssueFields }`)
+      .join('\n');
+    const query = `
+      query GetIssues($owner: String!, $name: String!) {
+        repository(owner: $owner, name: $name) {
+          ${aliases}
+        }
+      }
+      ${ISSUE_FIELDS}
+    `;
+
+    type Response = {
+      repository: Record<string, GitHubIssue | null> | null;
+    };
+
+    let data: Response | undefined;
+    try {
+      data = await this.octokit.graphql<Response>(query, { owner, name });
+    } catch (error) {
+      // Unknown numbers (or pull requests) produce partial errors with data
+      data = (error as { data?: Response }).data;
+      if (!data?.repository) {
+        throw new GitHubApiError(
+          `GitHub API error for ${repo}: ${(error as Error).message}`,
+          (error as { status?: number }).status,
+          error
+        );
+      }
+    }
+
+    const githubIssues: GitHubIssue[] = [];
+    for (const number of numbers) {
+      const githubIssue = data?.repository?.[`i${number}`];
+      if (githubIssue) {
+        logger.debug(`Retrieved issue ${repo}#${number}: ${githubIssue.title}`);
+        githubIssues.push(githubIssue);
+      } else {
+        logger.warning(`Issue ${repo}#${number} not found (or is a pull request)`);
+      }
+    }
+
+    return githubIssues;
+  }
+
+  /**
+   * Converts a GitHub issue to generic Issue format
+   */
+  private async convertToGenericIssue(
+    repo: string,
+    githubIssue: GitHubIssue
+  ): Promise<Issue> {
+    const fieldValues = githubIssue.projectItems.nodes.flatMap(
+      (item) => item.fieldValues.nodes
+    );
+    const sprints = fieldValues
+      .filter((value) => value.iterationId && value.startDate)
+      .map((value) => this.toSprint(value));
+    const assignee = githubIssue.assignees.nodes[0];
+
+    return {
+      id: githubIssue.id,
+      key: `${repo}#${githubIssue.number}`,
+      summary: githubIssue.title,
+      status: this.getStatus(githubIssue, fieldValues),
+      assignee: assignee
+        ? {
+            name: assignee.name || assignee.login,
+            email: assignee.email ?? '',
+          }
+        : null,
+      // Prefer the current iteration, otherwise the most recent one
+      sprint:
+        sprints.find((sprint) => sprint.state === 'active') ??
+        sprints[sprints.length - 1] ??
+        null,
+      sprints,
+      cycle: null, // GitHub uses iterations, mapped to sprints
+      pmEmail: await this.getGitHubPmEmail(githubIssue, fieldValues),
+      url: githubIssue.url,
+    };
+  }
+
+  /**
+   * Maps a Projects v2 iteration value to the sprint shape
+   */
+  private toSprint(value: GitHubProjectFieldValue): IssueSprint {
+    const start = new Date(`${value.startDate}T00:00:00Z`);
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() + (value.duration ?? 0));
+    const now = new Date();
+
+    let state: IssueSprint['state'] = 'closed';
+    if (now < start) {
+      state = 'future';
+    } else if (now < end) {
+      state = 'active';
+    }
+
+    return { name: value.title ?? 'Iteration', state };
+  }
+
+  /**
+   * Uses the project's Status field when set, otherwise the issue state
+   */
+  private getStatus(
+    githubIssue: GitHubIssue,
+    fieldValues: GitHubProjectFieldValue[]
+  ): string {
+    const projectStatus = fieldValues.find(
+      (value) => value.field?.name === 'Status' && value.name
+    );
+    if (projectStatus?.name) {
+      return projectStatus.name;
+    }
+    return githubIssue.state === 'OPEN' ? 'Open' : 'Closed';
+  }
+
+  /**
+   * Gets the PM email from the configured project field, then the assignee
+   * The field may contain an email address or a GitHub login
+   */
+  private async getGitHubPmEmail(
+    githubIssue: GitHubIssue,
+    fieldValues: GitHubProjectFieldValue[]
+  ): Promise<string | null> {
+    if (this.pmField) {
+      const value = fieldValues.find(
+        (fieldValue) => fieldValue.field?.name === this.pmField
+      );
+      const pm = (value?.text ?? value?.name)?.trim();
+
+      if (pm && pm.includes('@') && !pm.startsWith('@')) {
+        return pm;
+      }
+      if (pm) {
+        const email = await this.getUserEmail(pm.replace(/^@/, ''));
+        if (email) {
+          return email;
+        }
+      }
+    }
+
+    const assignee = githubIssue.assignees.nodes.find((user) => user.email);
+    if (assignee?.email) {
+      return assignee.email;
+    }
+
+    logger.debug(`No PM email found for issue #${githubIssue.number}`);
+    return null;
+  }
+
+  /**
+   * Looks up a user's public email by login (cached)
+   */
+  private getUserEmail(login: string): Promise<string | null> {
+    let email = this.userEmails.get(login);
+    if (!email) {
+      email = this.octokit
+        .graphql<{ user: { email: string } | null }>(
+          'query GetUser($login: String!) { user(login: $login) { email } }',
+          { login }
+        )
+        .then((data) => data.user?.email || null)
+        .catch((error) => {
+          logger.warning(
+            `Failed to look up GitHub user ${login}: ${(error as Error).message}`
+          );
+          return null;
+        });
+      this.userEmails.set(login, email);
+    }
+    return email;
+  }
+
+  /**
+   * Checks if the issue is in a current Projects iteration
+   */
+  isInActiveSprint(issue: Issue): boolean {
+    if (issue.sprints.length === 0) {
+      logger.debug(`Issue ${issue.key} has no iteration assigned`);
+      return false;
+    }
+
+    const isActive = issue.sprints.some((sprint) => sprint.state === 'active');
+    logger.debug(
+      `Issue ${issue.key} iterations: ${issue.sprints.map((sprint) => `${sprint.name} (${sprint.state})`).join(', ')}`
+    );
+    return isActive;
+  }
+
+  /**
+   * Filters issues by status (project Status field or Open/Closed)
+   */
+  filterByStatus(issues: Issue[], allowedStatuses?: string[]): Issue[] {
+    if (!allowedStatuses || allowedStatuses.length === 0) {
+      return issues;
+    }
+
+    const filtered = issues.filter((issue) =>
+      allowedStatuses.includes(issue.status)
+    );
+
+    logger.info(
+      `Filtered ${issues.length} issues to ${filtered.length} by status: ${allowedStatuses.join(', ')}`
+    );
+
+    return filtered;
+  }
+
+  /**
+   * Gets the PM email for an issue
+   */
+  getPmEmail(issue: Issue): string | null {
+    return issue.pmEmail;
+  }
+
+  /**
+   * Adds a label to an issue, GitHub creates the label if the repository lacks it
+   */
+  async addLabel(issue: Issue, label: string): Promise<void> {
+    const [repo, number] = issue.key.split('#');
+    const [owner, name] = repo.split('/');
+    await this.octokit.rest.issues.addLabels({
+      owner,
+      repo: name,
+      issue_number: Number(number),
+      labels: [label],
+    });
+    logger.info(`Added label ${label} to ${issue.key}`);
+  }
+
+  /**
+   * Constructs the URL for an issue reference (owner/repo#123)
+   */
+  getIssueUrl(issueId: string): string {
+    const [repo, number] = issueId.split('#');
+    return `https://github.com/${repo}/issues/${number}`;
+  }
+}
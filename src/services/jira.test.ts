@@ -0,0 +1,337 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { JiraService } from './jira';
+import { DeploymentMetadata, Issue, IssueSprint } from '../types';
+
+interface ReceivedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+}
+
+// Responses by "METHOD /path"; anything else is a 404
+type Handler = (request: ReceivedRequest) => [number, unknown];
+
+const SPRINT_FIELD = {
+  id: 'customfield_10020',
+  name: 'Sprint',
+  custom: true,
+  schema: {
+    type: 'array',
+    items: 'json',
+    custom: 'com.pyxis.greenhopper.jira:gh-sprint',
+  },
+};
+
+const METADATA: DeploymentMetadata = {
+  branch: 'main',
+  environment: 'staging',
+  deployedBy: 'dev',
+  commitSha: '3f9c2a1e7b5d4c8a9f0e1d2c3b4a5f6e7d8c9b0a',
+  repoUrl: 'https://github.com/acme/app',
+};
+
+const issue = (key: string, sprints: IssueSprint[]): Issue => ({
+  id: key,
+  key,
+  summary: `Summary of ${key}`,
+  status: 'In Progress',
+  assignee: null,
+  sprint: sprints[sprints.length - 1] ?? null,
+  sprints,
+  cycle: null,
+  pmEmail: null,
+  url: `https://acme.atlassian.net/browse/${key}`,
+});
+
+describe('JiraService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handlers: Record<string, Handler>;
+  let requests: ReceivedRequest[];
+
+  beforeEach(async () => {
+    requests = [];
+    handlers = {
+      'GET /rest/api/3/field': () => [200, [SPRINT_FIELD]],
+    };
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        const received: ReceivedRequest = {
+          method: request.method ?? 'GET',
+          path: url.pathname,
+          query: Object.fromEntries(url.searchParams),
+          body: body ? JSON.parse(body) : undefined,
+        };
+        requests.push(received);
+        const handler = handlers[`${received.method} ${received.path}`];
+        const [status, data] = handler
+          ? handler(received)
+          : [404, { errorMessages: ['Not found'] }];
+        response
+          .writeHead(status, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify(data ?? null));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createService = (boardId?: number) =>
+    new JiraService(baseUrl, 'dev@example.com', 'token', { boardId });
+
+  describe('isInActiveSprint', () => {
+    const current = issue('PROJ-1', [
+      { id: 1, name: 'Sprint 1', state: 'closed' },
+      { id: 2, name: 'Sprint 2', state: 'active' },
+    ]);
+    const otherBoard = issue('PROJ-2', [
+      { id: 9, name: 'Other team sprint', state: 'active' },
+    ]);
+
+    it("counts only the board's active sprint when a board is set", async () => {
+      handlers['GET /rest/agile/1.0/board/7/sprint'] = () => [
+        200,
+        { values: [{ id: 2, name: 'Sprint 2', state: 'active' }] },
+      ];
+      const service = createService(7);
+      await service.initialize();
+
+      expect(service.isInActiveSprint(current)).toBe(true);
+      expect(service.isInActiveSprint(otherBoard)).toBe(false);
+    });
+
+    it('counts no issue when the board has no active sprint', async () => {
+      handlers['GET /rest/agile/1.0/board/7/sprint'] = () => [
+        200,
+        { values: [] },
+      ];
+      const service = createService(7);
+      await service.initialize();
+
+      expect(service.isInActiveSprint(current)).toBe(false);
+    });
+
+    it("falls back to each issue's sprint state when the board lookup fails", async () => {
+      handlers['GET /rest/agile/1.0/board/7/sprint'] = () => [
+        401,
+        { errorMessages: ['Unauthorized'] },
+      ];
+      const service = createService(7);
+      await service.initialize();
+
+      expect(service.isInActiveSprint(current)).toBe(true);
+      expect(service.isInActiveSprint(otherBoard)).toBe(true);
+      expect(
+        service.isInActiveSprint(
+          issue('PROJ-3', [{ id: 1, name: 'Sprint 1', state: 'closed' }])
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('getIssues', () => {
+    it('fails instead of returning no issues when the search fails', async () => {
+      handlers['POST /rest/api/3/search/jql'] = () => [
+        401,
+        { errorMessages: ['Unauthorized'] },
+      ];
+      const service = createService();
+      await service.initialize();
+
+      await expect(service.getIssues(['PROJ-1'])).rejects.toMatchObject({
+        statusCode: 401,
+      });
+    });
+  });
+
+  describe('commentOnDeployment', () => {
+    const deployment = {
+      metadata: METADATA,
+      commits: [METADATA.commitSha],
+      permalink: 'https://acme.slack.com/archives/C1/p1',
+    };
+
+    // Comment 10 belongs to this deployment, 11 to production
+    const comment = (id: string, environment: string) => ({
+      id,
+      properties: [
+        {
+          key: 'pm-mediator.deployment',
+          value: { environment, commitSha: METADATA.commitSha },
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      handlers['GET /rest/api/3/issue/PROJ-1/comment'] = () => [
+        200,
+        { startAt: 0, total: 2, comments: [{ id: '11' }, { id: '10' }] },
+      ];
+      handlers['POST /rest/api/3/comment/list'] = () => [
+        200,
+        { values: [comment('11', 'production'), comment('10', 'staging')] },
+      ];
+      handlers['PUT /rest/api/3/issue/PROJ-1/comment/10'] = () => [200, {}];
+      handlers['POST /rest/api/3/issue/PROJ-1/comment'] = () => [201, {}];
+    });
+
+    it("edits the deployment's earlier comment", async () => {
+      await createService().commentOnDeployment(
+        issue('PROJ-1', []),
+        deployment
+      );
+
+      const writes = requests.filter((request) => request.method !== 'GET');
+      expect(
+        writes.map((request) => `${request.method} ${request.path}`)
+      ).toEqual([
+        'POST /rest/api/3/comment/list',
+        'PUT /rest/api/3/issue/PROJ-1/comment/10',
+      ]);
+      expect(JSON.stringify(writes[1].body)).toContain(
+        'https://acme.slack.com/archives/C1/p1'
+      );
+    });
+
+    it('adds a comment tagged with the deployment otherwise', async () => {
+      await createService().commentOnDeployment(issue('PROJ-1', []), {
+        ...deployment,
+        metadata: { ...METADATA, environment: 'qa' },
+      });
+
+      const created = requests.find(
+        (request) =>
+          request.method === 'POST' &&
+          request.path === '/rest/api/3/issue/PROJ-1/comment'
+      );
+      expect(created?.body).toMatchObject({
+        body: { type: 'doc' },
+        properties: [
+          {
+            key: 'pm-mediator.deployment',
+            value: { environment: 'qa', commitSha: METADATA.commitSha },
+          },
+        ],
+      });
+      expect(JSON.stringify(created?.body)).toContain(
+        `${METADATA.repoUrl}/commit/${METADATA.commitSha}`
+      );
+    });
+  });
+
+  describe('transitionIssue', () => {
+    const todo = { ...issue('PROJ-1', []), status: 'In Progress' };
+    const status = (name: string, category: string) => ({
+      name,
+      statusCategory: { key: category },
+    });
+
+    beforeEach(() => {
+      handlers['GET /rest/api/3/issue/PROJ-1'] = () => [
+        200,
+        {
+          key: 'PROJ-1',
+          fields: { status: status('In Progress', 'indeterminate') },
+        },
+      ];
+      handlers['GET /rest/api/3/issue/PROJ-1/transitions'] = () => [
+        200,
+        {
+          transitions: [
+            {
+              id: '21',
+              name: 'Send to QA',
+              to: status('Ready for QA', 'indeterminate'),
+            },
+            {
+              id: '31',
+              name: 'Close',
+              to: status('Done', 'done'),
+              fields: {
+                resolution: {
+                  name: 'Resolution',
+                  required: true,
+                  hasDefaultValue: false,
+                  allowedValues: [
+                    { id: '1', name: "Won't Do" },
+                    { id: '2', name: 'Done' },
+                  ],
+                },
+              },
+            },
+          ],
+        },
+      ];
+      handlers['POST /rest/api/3/issue/PROJ-1/transitions'] = () => [204, null];
+    });
+
+    const posted = () =>
+      requests.filter(
+        (request) =>
+          request.method === 'POST' &&
+          request.path === '/rest/api/3/issue/PROJ-1/transitions'
+      );
+
+    it('moves an issue through the transition to the status', async () => {
+      await expect(
+        createService().transitionIssue(todo, 'ready for qa')
+      ).resolves.toEqual({
+        outcome: 'transitioned',
+        from: 'In Progress',
+        to: 'Ready for QA',
+        reason: undefined,
+      });
+      expect(posted()[0].body).toEqual({ transition: { id: '21' } });
+    });
+
+    it('fills a required resolution', async () => {
+      await createService().transitionIssue(todo, 'Done');
+
+      expect(posted()[0].body).toEqual({
+        transition: { id: '31' },
+        fields: { resolution: { id: '2' } },
+      });
+    });
+
+    it('skips issues already in or past the status', async () => {
+      const service = createService();
+
+      await expect(
+        service.transitionIssue(
+          { ...todo, status: 'Ready for QA' },
+          'Ready for QA'
+        )
+      ).resolves.toMatchObject({ outcome: 'skipped' });
+      await expect(
+        service.transitionIssue({ ...todo, status: 'Done' }, 'Ready for QA', [
+          'Done',
+        ])
+      ).resolves.toMatchObject({
+        outcome: 'skipped',
+        reason: 'already past Ready for QA',
+      });
+      expect(requests).toHaveLength(0);
+    });
+
+    it('reports a missing transition as failed', async () => {
+      await expect(
+        createService().transitionIssue(todo, 'Blocked')
+      ).resolves.toMatchObject({
+        outcome: 'failed',
+        reason: 'no transition to Blocked from In Progress',
+      });
+      expect(posted()).toHaveLength(0);
+    });
+  });
+});
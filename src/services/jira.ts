@@ -4,20 +4,127 @@ import {
   JiraSprint,
   JiraSearchResponse,
   JiraSprintResponse,
+  JiraBoardResponse,
+  JiraField,
+  JiraComponent,
+  JiraProject,
+  JiraUser,
+  JiraPmSource,
   JiraApiError,
+  JiraComment,
+  JiraCommentResponse,
+  JiraTransition,
+  TransitionResult,
+  AdfNode,
+  DeploymentComment,
+  ConfigurationError,
   Issue,
+  IssueSprint,
   IssueTrackerService,
 } from '../types';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('JiraService');
 
+// Custom field type used by Jira Software for the sprint field
+const SPRINT_FIELD_SCHEMA = 'com.pyxis.greenhopper.jira:gh-sprint';
+
+// Keys per JQL query and issues per page
+const SEARCH_CHUNK_SIZE = 100;
+const SEARCH_PAGE_SIZE = 100;
+const COMMENT_PAGE_SIZE = 100;
+
+// Comment property identifying deployment comments, for idempotent edits
+const DEPLOYMENT_COMMENT_PROPERTY = 'pm-mediator.deployment';
+const MAX_COMMENT_COMMITS = 10;
+
+// Status categories in workflow order, for skipping issues already past a status
+const STATUS_CATEGORY_ORDER = ['new', 'indeterminate', 'done'];
+
+// Preferred resolutions when a transition requires one
+const PREFERRED_RESOLUTIONS = ['done', 'fixed'];
+
+const BASE_FIELDS = [
+  'summary',
+  'status',
+  'assignee',
+  'reporter',
+  'components',
+  'project',
+];
+
+/**
+ * Compares status names case-insensitively
+ */
+function isSameStatus(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Creates an ADF text node
+ */
+function adfText(text: string, marks?: AdfNode['marks']): AdfNode {
+  return marks ? { type: 'text', text, marks } : { type: 'text', text };
+}
+
+/**
+ * Creates an ADF link
+ */
+function adfLink(text: string, href: string): AdfNode {
+  return adfText(text, [{ type: 'link', attrs: { href } }]);
+}
+
+/**
+ * Creates an ADF list item reading "Label: value"
+ */
+function adfListItem(label: string, ...value: AdfNode[]): AdfNode {
+  return {
+    type: 'listItem',
+    content: [
+      {
+        type: 'paragraph',
+        content: [adfText(`${label}: `, [{ type: 'strong' }]), ...value],
+      },
+    ],
+  };
+}
+
+export interface JiraServiceOptions {
+  pmField?: string; // field id or name
+  pmFallback?: JiraPmSource[];
+  sprintField?: string; // field id or name; discovered when omitted
+  boardId?: number; // scope active sprint checks to this board
+  projectKey?: string; // used to discover the board when boardId is omitted
+}
+
 export class JiraService implements IssueTrackerService {
   private client: AxiosInstance;
   private baseUrl: string;
-
-  constructor(baseUrl: string, email: string, apiToken: string) {
+  private pmField?: string;
+  private pmFieldId?: string;
+  private pmFallback: JiraPmSource[];
+  private sprintField?: string;
+  private sprintFieldId = 'sprint';
+  private fields?: Promise<JiraField[]>;
+  private boardId?: number;
+  private projectKey?: string;
+  // undefined: not board-scoped, null: board has no active sprint
+  private boardSprint?: JiraSprint | null;
+  private componentLeads = new Map<string, Promise<JiraUser | null>>();
+  private projectLeads = new Map<string, Promise<JiraUser | null>>();
+
+  constructor(
+    baseUrl: string,
+    email: string,
+    apiToken: string,
+    options: JiraServiceOptions = {}
+  ) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.pmField = options.pmField;
+    this.pmFallback = options.pmFallback ?? ['pm_field', 'reporter'];
+    this.sprintField = options.sprintField;
+    this.boardId = options.boardId;
+    this.projectKey = options.projectKey;
 
     this.client = axios.create({
       baseURL: this.baseUrl,
@@ -51,42 +158,187 @@ export class JiraService implements IssueTrackerService {
   }
 
   /**
-   * Gets the active sprint for a project board
+   * Resolves configured custom fields through Jira's field metadata
    */
-  async getActiveSprint(boardId?: number): Promise<JiraSprint | null> {
-    try {
-      // If no board ID provided, we'll need to search issues for sprint info
-      if (!boardId) {
-        logger.debug('No board ID provided, will extract sprint from issues');
-        return null;
+  async initialize(): Promise<void> {
+    if (this.pmField) {
+      this.pmFieldId = await this.resolvePmField(this.pmField);
+    }
+    this.sprintFieldId = await this.resolveSprintField(this.sprintField);
+
+    const boardId =
+      this.boardId ??
+      (this.projectKey ? await this.findBoardId(this.projectKey) : undefined);
+    if (boardId) {
+      try {
+        this.boardSprint = await this.getActiveSprint(boardId);
+      } catch (error) {
+        // A failed lookup says nothing about the board's sprint, so each
+        // issue's own sprint state decides instead
+        logger.warning(
+          `Failed to get the active sprint of board ${boardId}, checking each issue's sprint state instead: ${(error as Error).message}`
+        );
       }
+    }
+  }
 
-      const response = await this.client.get<JiraSprintResponse>(
-        `/rest/agile/1.0/board/${boardId}/sprint`,
+  /**
+   * Discovers the scrum board for a project
+   */
+  private async findBoardId(projectKey: string): Promise<number | undefined> {
+    try {
+      const response = await this.client.get<JiraBoardResponse>(
+        '/rest/agile/1.0/board',
         {
           params: {
-            state: 'active',
-            maxResults: 1,
+            projectKeyOrId: projectKey,
+            type: 'scrum',
           },
         }
       );
 
-      const activeSprints = response.data.values.filter(
-        (sprint) => sprint.state === 'active'
+      const boards = response.data.values;
+      if (boards.length === 0) {
+        logger.warning(`No scrum board found for project ${projectKey}`);
+        return undefined;
+      }
+
+      if (boards.length > 1) {
+        logger.warning(
+          `Found ${boards.length} boards for project ${projectKey}, using ${boards[0].name}; set jira_board_id to choose another`
+        );
+      }
+
+      logger.info(`Using Jira board: ${boards[0].name} (ID: ${boards[0].id})`);
+      return boards[0].id;
+    } catch (error) {
+      logger.warning(
+        `Failed to discover board for project ${projectKey}: ${(error as Error).message}`
       );
+      return undefined;
+    }
+  }
 
-      if (activeSprints.length === 0) {
-        logger.warning(`No active sprint found for board ${boardId}`);
-        return null;
+  /**
+   * Gets Jira's field metadata (cached for the lifetime of the service)
+   */
+  private getFields(): Promise<JiraField[]> {
+    if (!this.fields) {
+      this.fields = this.client
+        .get<JiraField[]>('/rest/api/3/field')
+        .then((response) => response.data);
+    }
+    return this.fields;
+  }
+
+  /**
+   * Finds a field by id or human-readable name (case-insensitive)
+   */
+  private async findField(fieldIdOrName: string): Promise<JiraField | undefined> {
+    const fields = await this.getFields();
+    const needle = fieldIdOrName.trim().toLowerCase();
+    return (
+      fields.find((f) => f.id.toLowerCase() === needle) ??
+      fields.find((f) => f.name.toLowerCase() === needle)
+    );
+  }
+
+  /**
+   * Resolves the PM field id from an id or a human-readable field name
+   */
+  private async resolvePmField(fieldIdOrName: string): Promise<string> {
+    const field = await this.findField(fieldIdOrName);
+
+    if (!field) {
+      throw new ConfigurationError(
+        `Jira PM field "${fieldIdOrName}" not found in field metadata`
+      );
+    }
+
+    const isUserPicker =
+      field.schema?.type === 'user' ||
+      (field.schema?.type === 'array' && field.schema.items === 'user');
+    if (!isUserPicker) {
+      logger.warning(
+        `Jira field ${field.name} (${field.id}) is not a user picker (type: ${field.schema?.type ?? 'unknown'})`
+      );
+    }
+
+    logger.info(`Using Jira PM field: ${field.name} (${field.id})`);
+    return field.id;
+  }
+
+  /**
+   * Resolves the sprint field id, discovering the Jira Software sprint
+   * custom field (e.g. customfield_10020) when none is configured
+   */
+  private async resolveSprintField(fieldIdOrName?: string): Promise<string> {
+    if (fieldIdOrName) {
+      const field = await this.findField(fieldIdOrName);
+      if (!field) {
+        throw new ConfigurationError(
+          `Jira sprint field "${fieldIdOrName}" not found in field metadata`
+        );
       }
+      logger.info(`Using Jira sprint field: ${field.name} (${field.id})`);
+      return field.id;
+    }
 
-      const sprint = activeSprints[0];
-      logger.info(`Found active sprint: ${sprint.name} (ID: ${sprint.id})`);
-      return sprint;
+    try {
+      const fields = await this.getFields();
+      const sprintField = fields.find(
+        (f) => f.schema?.custom === SPRINT_FIELD_SCHEMA
+      );
+      if (sprintField) {
+        logger.info(
+          `Discovered Jira sprint field: ${sprintField.name} (${sprintField.id})`
+        );
+        return sprintField.id;
+      }
     } catch (error) {
-      logger.error('Failed to get active sprint', error as Error);
+      logger.warning(
+        `Failed to discover Jira sprint field: ${(error as Error).message}`
+      );
+    }
+
+    logger.warning('No Jira sprint field found, falling back to "sprint"');
+    return 'sprint';
+  }
+
+  /**
+   * Gets the active sprint for a project board
+   * @returns The sprint, or null when the board has no active sprint
+   * @throws JiraApiError when the board can't be read
+   */
+  async getActiveSprint(boardId?: number): Promise<JiraSprint | null> {
+    // If no board ID provided, we'll need to search issues for sprint info
+    if (!boardId) {
+      logger.debug('No board ID provided, will extract sprint from issues');
       return null;
     }
+
+    const response = await this.client.get<JiraSprintResponse>(
+      `/rest/agile/1.0/board/${boardId}/sprint`,
+      {
+        params: {
+          state: 'active',
+          maxResults: 1,
+        },
+      }
+    );
+
+    const activeSprints = response.data.values.filter(
+      (sprint) => sprint.state === 'active'
+    );
+
+    if (activeSprints.length === 0) {
+      logger.warning(`No active sprint found for board ${boardId}`);
+      return null;
+    }
+
+    const sprint = activeSprints[0];
+    logger.info(`Found active sprint: ${sprint.name} (ID: ${sprint.id})`);
+    return sprint;
   }
 
   /**
@@ -98,8 +350,7 @@ export class JiraService implements IssueTrackerService {
         `/rest/api/3/issue/${ticketId}`,
         {
           params: {
-            fields:
-              'summary,status,assignee,reporter,sprint,customfield_pm',
+            fields: this.getRequestedFields().join(','),
           },
         }
       );
@@ -116,6 +367,232 @@ export class JiraService implements IssueTrackerService {
     }
   }
 
+  /**
+   * Adds a label to an issue (Jira labels can't contain spaces)
+   */
+  async addLabel(issue: Issue, label: string): Promise<void> {
+    await this.client.put(`/rest/api/3/issue/${issue.key}`, {
+      update: { labels: [{ add: label }] },
+    });
+    logger.info(`Added label ${label} to ${issue.key}`);
+  }
+
+  /**
+   * Moves an issue to a status through the matching workflow transition
+   * Issues already in the status, in one of the later statuses or in a
+   * later status category are skipped
+   */
+  async transitionIssue(
+    issue: Issue,
+    status: string,
+    laterStatuses: string[] = []
+  ): Promise<TransitionResult> {
+    const result = (
+      outcome: TransitionResult['outcome'],
+      reason?: string,
+      to = status
+    ): TransitionResult => ({ outcome, from: issue.status, to, reason });
+
+    if (isSameStatus(issue.status, status)) {
+      return result('skipped', `already in ${issue.status}`);
+    }
+    if (laterStatuses.some((later) => isSameStatus(later, issue.status))) {
+      return result('skipped', `already past ${status}`);
+    }
+
+    try {
+      const [{ data: current }, { data: available }] = await Promise.all([
+        this.client.get<JiraIssue>(`/rest/api/3/issue/${issue.key}`, {
+          params: { fields: 'status' },
+        }),
+        this.client.get<{ transitions: JiraTransition[] }>(
+          `/rest/api/3/issue/${issue.key}/transitions`,
+          { params: { expand: 'transitions.fields' } }
+        ),
+      ]);
+      const category = current.fields.status.statusCategory.key ?? '';
+
+      const transition =
+        available.transitions.find((t) => isSameStatus(t.to.name, status)) ??
+        available.transitions.find((t) => isSameStatus(t.name, status));
+      if (!transition) {
+        return category === 'done'
+          ? result('skipped', `already done (${current.fields.status.name})`)
+          : result('failed', `no transition to ${status} from ${issue.status}`);
+      }
+
+      if (
+        STATUS_CATEGORY_ORDER.indexOf(category) >
+        STATUS_CATEGORY_ORDER.indexOf(transition.to.statusCategory.key)
+      ) {
+        return result('skipped', `already past ${status}`);
+      }
+
+      // Fill required fields Jira has no default for, when unambiguous
+      const fields: Record<string, { id: string }> = {};
+      for (const [fieldId, field] of Object.entries(transition.fields ?? {})) {
+        if (!field.required || field.hasDefaultValue) {
+          continue;
+        }
+        const allowed = field.allowedValues ?? [];
+        const value =
+          fieldId === 'resolution'
+            ? (allowed.find((v) =>
+                PREFERRED_RESOLUTIONS.includes((v.name ?? '').toLowerCase())
+              ) ?? allowed[0])
+            : allowed.length === 1
+              ? allowed[0]
+              : undefined;
+        if (!value) {
+          return result('failed', `the transition requires ${field.name}`);
+        }
+        fields[fieldId] = { id: value.id };
+      }
+
+      await this.client.post(`/rest/api/3/issue/${issue.key}/transitions`, {
+        transition: { id: transition.id },
+        ...(Object.keys(fields).length > 0 ? { fields } : {}),
+      });
+      logger.info(
+        `Transitioned ${issue.key} from ${issue.status} to ${transition.to.name}`
+      );
+      return result('transitioned', undefined, transition.to.name);
+    } catch (error) {
+      return result('failed', (error as Error).message);
+    }
+  }
+
+  /**
+   * Comments a deployment on an issue, editing the earlier comment for the
+   * same environment and commit instead of adding another
+   */
+  async commentOnDeployment(
+    issue: Issue,
+    deployment: DeploymentComment
+  ): Promise<void> {
+    const { environment, commitSha } = deployment.metadata;
+    const body = this.createDeploymentComment(deployment);
+    const existing = await this.findDeploymentComment(
+      issue.key,
+      environment,
+      commitSha
+    );
+
+    if (existing) {
+      await this.client.put(
+        `/rest/api/3/issue/${issue.key}/comment/${existing.id}`,
+        { body }
+      );
+      logger.info(`Updated deployment comment ${existing.id} on ${issue.key}`);
+      return;
+    }
+
+    await this.client.post(`/rest/api/3/issue/${issue.key}/comment`, {
+      body,
+      properties: [
+        { key: DEPLOYMENT_COMMENT_PROPERTY, value: { environment, commitSha } },
+      ],
+    });
+    logger.info(`Added deployment comment to ${issue.key}`);
+  }
+
+  /**
+   * Finds the comment left for a deployment, newest comments first
+   */
+  private async findDeploymentComment(
+    issueKey: string,
+    environment: string,
+    commitSha: string
+  ): Promise<JiraComment | undefined> {
+    let startAt = 0;
+
+    for (;;) {
+      const { data } = await this.client.get<JiraCommentResponse>(
+        `/rest/api/3/issue/${issueKey}/comment`,
+        {
+          params: { startAt, maxResults: COMMENT_PAGE_SIZE, orderBy: '-created' },
+        }
+      );
+      if (data.comments.length === 0) {
+        return undefined;
+      }
+
+      // Comment properties are only returned by the bulk endpoint
+      const { data: page } = await this.client.post<{ values: JiraComment[] }>(
+        '/rest/api/3/comment/list',
+        { ids: data.comments.map((comment) => Number(comment.id)) },
+        { params: { expand: 'properties' } }
+      );
+      const match = page.values.find((comment) =>
+        comment.properties?.some((property) => {
+          const value = property.value as {
+            environment?: string;
+            commitSha?: string;
+          };
+          return (
+            property.key === DEPLOYMENT_COMMENT_PROPERTY &&
+            value.environment === environment &&
+            value.commitSha === commitSha
+          );
+        })
+      );
+      if (match) {
+        return match;
+      }
+
+      startAt += data.comments.length;
+      if (startAt >= data.total) {
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * Creates the ADF body of a deployment comment
+   */
+  private createDeploymentComment(deployment: DeploymentComment): AdfNode {
+    const { metadata, permalink } = deployment;
+    const commits = deployment.commits.length
+      ? deployment.commits
+      : [metadata.commitSha];
+
+    const commitLinks = commits
+      .slice(0, MAX_COMMENT_COMMITS)
+      .flatMap((sha, index) => [
+        ...(index > 0 ? [adfText(', ')] : []),
+        adfLink(sha.substring(0, 7), `${metadata.repoUrl}/commit/${sha}`),
+      ]);
+    if (commits.length > MAX_COMMENT_COMMITS) {
+      commitLinks.push(
+        adfText(` and ${commits.length - MAX_COMMENT_COMMITS} more`)
+      );
+    }
+
+    const items = [
+      adfListItem('Environment', adfText(metadata.environment)),
+      adfListItem('Branch', adfText(metadata.branch, [{ type: 'code' }])),
+      adfListItem('Deployed by', adfText(metadata.deployedBy)),
+      adfListItem('Commits', ...commitLinks),
+    ];
+    if (permalink) {
+      items.push(adfListItem('Announcement', adfLink('View message', permalink)));
+    }
+
+    return {
+      type: 'doc',
+      version: 1,
+      content: [
+        {
+          type: 'paragraph',
+          content: [
+            adfText(`🚀 Deployed to ${metadata.environment}`, [{ type: 'strong' }]),
+          ],
+        },
+        { type: 'bulletList', content: items },
+      ],
+    };
+  }
+
   /**
    * Gets multiple issues in batch (returns generic Issue type)
    */
@@ -124,55 +601,121 @@ export class JiraService implements IssueTrackerService {
       return [];
     }
 
+    logger.group(`Fetching ${ticketIds.length} issues from Jira`);
     try {
-      logger.group(`Fetching ${ticketIds.length} issues from Jira`);
-
       const jiraIssues = await this.getJiraIssues(ticketIds);
-      const issues = jiraIssues.map((issue) => this.convertToGenericIssue(issue));
+      const issues = await Promise.all(
+        jiraIssues.map((issue) => this.convertToGenericIssue(issue))
+      );
 
       logger.info(`Found ${issues.length} issues`);
-      logger.endGroup();
-
       return issues;
-    } catch (error) {
-      logger.error('Failed to get issues', error as Error);
+    } finally {
       logger.endGroup();
-      return [];
     }
   }
 
   /**
    * Gets multiple Jira issues in batch (returns Jira-specific type)
+   * Keys are chunked per JQL query and results follow nextPageToken
    */
   async getJiraIssues(ticketIds: string[]): Promise<JiraIssue[]> {
     if (ticketIds.length === 0) {
       return [];
     }
 
-    const jql = `key in (${ticketIds.join(',')})`;
-    const response = await this.client.post<JiraSearchResponse>(
-      '/rest/api/3/search',
-      {
-        jql,
-        fields: [
-          'summary',
-          'status',
-          'assignee',
-          'reporter',
-          'sprint',
-          'customfield_pm',
-        ],
-        maxResults: 100,
+    const issues: JiraIssue[] = [];
+    for (let i = 0; i < ticketIds.length; i += SEARCH_CHUNK_SIZE) {
+      issues.push(
+        ...(await this.searchByKeys(ticketIds.slice(i, i + SEARCH_CHUNK_SIZE)))
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Searches for a set of keys, retrying without keys Jira rejects as
+   * invalid or nonexistent so one typo doesn't drop the whole batch
+   */
+  private async searchByKeys(keys: string[]): Promise<JiraIssue[]> {
+    let remaining = keys;
+
+    while (remaining.length > 0) {
+      try {
+        return await this.searchJql(`key in (${remaining.join(',')})`);
+      } catch (error) {
+        const invalidKeys = this.getInvalidKeys(error, remaining);
+        if (invalidKeys.length === 0) {
+          throw error;
+        }
+
+        logger.warning(
+          `Skipping unknown Jira issue key(s): ${invalidKeys.join(', ')}`
+        );
+        remaining = remaining.filter((key) => !invalidKeys.includes(key));
       }
-    );
+    }
 
-    return response.data.issues;
+    return [];
+  }
+
+  /**
+   * Runs a JQL search through the token-paginated /search/jql endpoint
+   */
+  private async searchJql(jql: string): Promise<JiraIssue[]> {
+    const issues: JiraIssue[] = [];
+    let nextPageToken: string | undefined;
+
+    do {
+      const response = await this.client.post<JiraSearchResponse>(
+        '/rest/api/3/search/jql',
+        {
+          jql,
+          fields: this.getRequestedFields(),
+          maxResults: SEARCH_PAGE_SIZE,
+          nextPageToken,
+        }
+      );
+
+      issues.push(...response.data.issues);
+      nextPageToken = response.data.isLast
+        ? undefined
+        : response.data.nextPageToken;
+    } while (nextPageToken);
+
+    return issues;
+  }
+
+  /**
+   * Extracts the keys Jira rejected from a JQL error response
+   */
+  private getInvalidKeys(error: unknown, keys: string[]): string[] {
+    if (!(error instanceof JiraApiError) || error.statusCode !== 400) {
+      return [];
+    }
+
+    const data = error.response as { errorMessages?: string[] } | undefined;
+    const messages = (data?.errorMessages ?? []).join('\n');
+
+    // e.g. "An issue with key 'PROJ-999' does not exist for field 'key'."
+    return keys.filter((key) => messages.includes(`'${key}'`));
+  }
+
+  /**
+   * Gets the list of fields to request for each issue
+   */
+  private getRequestedFields(): string[] {
+    const fields = [...BASE_FIELDS, this.sprintFieldId];
+    return this.pmFieldId ? [...fields, this.pmFieldId] : fields;
   }
 
   /**
    * Converts Jira issue to generic Issue format
    */
-  private convertToGenericIssue(jiraIssue: JiraIssue): Issue {
+  private async convertToGenericIssue(jiraIssue: JiraIssue): Promise<Issue> {
+    const sprints = this.parseSprints(jiraIssue.fields[this.sprintFieldId]);
+
     return {
       id: jiraIssue.id,
       key: jiraIssue.key,
@@ -184,34 +727,91 @@ export class JiraService implements IssueTrackerService {
             email: jiraIssue.fields.assignee.emailAddress,
           }
         : null,
-      sprint: jiraIssue.fields.sprint
-        ? {
-            name: jiraIssue.fields.sprint.name,
-            state: jiraIssue.fields.sprint.state,
-          }
-        : null,
+      // Prefer the active sprint, otherwise the most recent one
+      sprint:
+        sprints.find((sprint) => sprint.state === 'active') ??
+        sprints[sprints.length - 1] ??
+        null,
+      sprints,
       cycle: null, // Jira doesn't use cycles
-      pmEmail: this.getJiraPmEmail(jiraIssue),
+      pmEmail: await this.getJiraPmEmail(jiraIssue),
       url: this.getIssueUrl(jiraIssue.key),
     };
   }
 
+  /**
+   * Parses the sprint field value into the sprint history of an issue
+   * Handles Jira Cloud objects, legacy serialized strings and single values
+   */
+  private parseSprints(value: unknown): IssueSprint[] {
+    if (!value) {
+      return [];
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    const sprints: IssueSprint[] = [];
+
+    for (const raw of values) {
+      if (typeof raw === 'string') {
+        // Jira Server format: "com.atlassian.greenhopper...Sprint@1a2b[id=1,state=ACTIVE,name=Sprint 1,...]"
+        const id = /[[,]id=(\d+)/.exec(raw)?.[1];
+        const state = /[[,]state=(\w+)/.exec(raw)?.[1];
+        const name = /[[,]name=([^,\]]*)/.exec(raw)?.[1];
+        if (name && state) {
+          sprints.push({
+            id: id ? Number(id) : undefined,
+            name,
+            state: state.toLowerCase() as IssueSprint['state'],
+          });
+        }
+      } else if (raw && typeof raw === 'object') {
+        const sprint = raw as JiraSprint;
+        sprints.push({
+          id: sprint.id,
+          name: sprint.name,
+          state: sprint.state.toLowerCase() as IssueSprint['state'],
+        });
+      }
+    }
+
+    return sprints;
+  }
+
   /**
    * Checks if an issue is in the active sprint (generic Issue)
+   * Carried-over issues count as active if any of their sprints is active.
+   * When a board is configured, only that board's active sprint counts.
    */
   isInActiveSprint(issue: Issue): boolean {
-    // Check if issue has sprint field
-    const sprint = issue.sprint;
-    if (!sprint) {
+    const sprints = issue.sprints;
+    if (sprints.length === 0) {
       logger.debug(`Issue ${issue.key} has no sprint assigned`);
       return false;
     }
 
-    const isActive = sprint.state === 'active';
+    if (this.boardSprint === null) {
+      logger.debug(`Board has no active sprint, so ${issue.key} is not in one`);
+      return false;
+    }
+
+    if (this.boardSprint !== undefined) {
+      const boardSprintId = this.boardSprint.id;
+      const inBoardSprint =
+        boardSprintId !== undefined &&
+        sprints.some(
+          (sprint) => sprint.id !== undefined && sprint.id === boardSprintId
+        );
+      logger.debug(
+        `Issue ${issue.key} in board sprint ${this.boardSprint.name}: ${inBoardSprint}`
+      );
+      return inBoardSprint;
+    }
+
+    const activeSprint = sprints.find((sprint) => sprint.state === 'active');
     logger.debug(
-      `Issue ${issue.key} sprint status: ${sprint.name} (${sprint.state})`
+      `Issue ${issue.key} sprints: ${sprints.map((sprint) => `${sprint.name} (${sprint.state})`).join(', ')}`
     );
-    return isActive;
+    return activeSprint !== undefined;
   }
 
   /**
@@ -243,23 +843,118 @@ export class JiraService implements IssueTrackerService {
 
   /**
    * Gets the PM email from a Jira issue
-   * Tries custom PM field first, falls back to reporter
+   * Walks the configured fallback chain (PM field, component lead, project lead, reporter)
    */
-  private getJiraPmEmail(jiraIssue: JiraIssue): string | null {
-    // Try custom PM field first
-    if (jiraIssue.fields.customfield_pm?.emailAddress) {
-      return jiraIssue.fields.customfield_pm.emailAddress;
-    }
-
-    // Fall back to reporter
-    if (jiraIssue.fields.reporter?.emailAddress) {
-      return jiraIssue.fields.reporter.emailAddress;
+  private async getJiraPmEmail(jiraIssue: JiraIssue): Promise<string | null> {
+    for (const source of this.pmFallback) {
+      const user = await this.getPmCandidate(jiraIssue, source);
+      if (user?.emailAddress) {
+        logger.debug(
+          `Resolved PM for ${jiraIssue.key} from ${source}: ${user.emailAddress}`
+        );
+        return user.emailAddress;
+      }
     }
 
     logger.debug(`No PM email found for issue ${jiraIssue.key}`);
     return null;
   }
 
+  /**
+   * Gets the PM candidate for a single source in the fallback chain
+   */
+  private async getPmCandidate(
+    jiraIssue: JiraIssue,
+    source: JiraPmSource
+  ): Promise<JiraUser | null> {
+    switch (source) {
+      case 'pm_field':
+        return this.getPmFieldUser(jiraIssue);
+
+      case 'component_lead':
+        for (const component of jiraIssue.fields.components ?? []) {
+          const lead = await this.getComponentLead(component.id);
+          if (lead?.emailAddress) {
+            return lead;
+          }
+        }
+        return null;
+
+      case 'project_lead':
+        return jiraIssue.fields.project
+          ? this.getProjectLead(jiraIssue.fields.project.key)
+          : null;
+
+      case 'reporter':
+        return jiraIssue.fields.reporter;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Reads the PM field, supporting single and multi-user pickers
+   */
+  private getPmFieldUser(jiraIssue: JiraIssue): JiraUser | null {
+    if (!this.pmFieldId) {
+      return null;
+    }
+
+    const value = jiraIssue.fields[this.pmFieldId] as
+      | JiraUser
+      | JiraUser[]
+      | null
+      | undefined;
+
+    if (Array.isArray(value)) {
+      // Multi-user picker: the first PM with a visible email wins
+      return value.find((user) => user?.emailAddress) ?? null;
+    }
+
+    return value ?? null;
+  }
+
+  /**
+   * Gets a component's lead (cached per component)
+   */
+  private getComponentLead(componentId: string): Promise<JiraUser | null> {
+    let lead = this.componentLeads.get(componentId);
+    if (!lead) {
+      lead = this.client
+        .get<JiraComponent>(`/rest/api/3/component/${componentId}`)
+        .then((response) => response.data.lead ?? null)
+        .catch((error) => {
+          logger.warning(
+            `Failed to get component ${componentId}: ${(error as Error).message}`
+          );
+          return null;
+        });
+      this.componentLeads.set(componentId, lead);
+    }
+    return lead;
+  }
+
+  /**
+   * Gets a project's lead (cached per project)
+   */
+  private getProjectLead(projectKey: string): Promise<JiraUser | null> {
+    let lead = this.projectLeads.get(projectKey);
+    if (!lead) {
+      lead = this.client
+        .get<JiraProject>(`/rest/api/3/project/${projectKey}`)
+        .then((response) => response.data.lead ?? null)
+        .catch((error) => {
+          logger.warning(
+            `Failed to get project ${projectKey}: ${(error as Error).message}`
+          );
+          return null;
+        });
+      this.projectLeads.set(projectKey, lead);
+    }
+    return lead;
+  }
+
   /**
    * Constructs the URL for an issue
    */
@@ -0,0 +1,137 @@
+import { DeploymentLedger } from './ledger';
+import { DeploymentState, Issue } from '../types';
+
+const issue = (key: string): Issue => ({
+  id: key,
+  key,
+  summary: `Summary of ${key}`,
+  status: 'In Review',
+  assignee: null,
+  sprint: null,
+  sprints: [],
+  cycle: null,
+  pmEmail: null,
+  url: `https://example.com/${key}`,
+});
+
+const createState = (): DeploymentState => ({
+  version: 1,
+  threads: [],
+  deployments: [
+    {
+      ticket: 'PROJ-1',
+      environment: 'staging',
+      commitSha: 'aaa1111',
+      notifiedAt: '2024-01-01T00:00:00.000Z',
+    },
+    {
+      ticket: 'PROJ-2',
+      environment: 'staging',
+      commitSha: 'bbb2222',
+      notifiedAt: '2024-01-02T00:00:00.000Z',
+    },
+    {
+      ticket: 'PROJ-3',
+      environment: 'production',
+      commitSha: 'ccc3333',
+      notifiedAt: '2024-01-03T00:00:00.000Z',
+    },
+  ],
+  heads: [],
+  tombstones: [],
+});
+
+describe('DeploymentLedger', () => {
+  it('looks up announcements in its own environment only', () => {
+    const ledger = new DeploymentLedger(createState(), 'staging');
+    expect(ledger.getAnnouncedSha('PROJ-1')).toBe('aaa1111');
+    expect(ledger.getAnnouncedSha('PROJ-3')).toBeUndefined();
+    expect(ledger.getLastNotifiedSha()).toBe('bbb2222');
+  });
+
+  it('splits issues into announced and unannounced', () => {
+    const ledger = new DeploymentLedger(createState(), 'staging');
+    const issues = [issue('PROJ-1'), issue('PROJ-3')];
+    expect(ledger.filterUnannounced(issues).map((i) => i.key)).toEqual([
+      'PROJ-3',
+    ]);
+    expect(ledger.filterAnnounced(issues).map((i) => i.key)).toEqual([
+      'PROJ-1',
+    ]);
+  });
+
+  it('records announcements once per ticket, environment and commit', () => {
+    const state = createState();
+    const ledger = new DeploymentLedger(state, 'staging');
+    ledger.record(['PROJ-1', 'PROJ-4'], 'aaa1111');
+    ledger.record(['PROJ-4'], 'aaa1111');
+
+    expect(
+      state.deployments.filter((record) => record.environment === 'staging')
+    ).toHaveLength(3);
+    expect(ledger.getAnnouncedSha('PROJ-4')).toBe('aaa1111');
+    expect(ledger.getLastNotifiedSha()).toBe('aaa1111');
+  });
+
+  it('forgets rolled back tickets in its own environment only', () => {
+    const state = createState();
+    new DeploymentLedger(state, 'staging').forget(['PROJ-1', 'PROJ-3']);
+
+    expect(state.deployments.map((record) => record.ticket)).toEqual([
+      'PROJ-2',
+      'PROJ-3',
+    ]);
+    expect(state.tombstones).toEqual([
+      {
+        ticket: 'PROJ-1',
+        environment: 'staging',
+        forgottenAt: expect.any(String),
+      },
+      {
+        ticket: 'PROJ-3',
+        environment: 'staging',
+        forgottenAt: expect.any(String),
+      },
+    ]);
+  });
+
+  it('keeps one tombstone per ticket and environment', () => {
+    const state = createState();
+    const ledger = new DeploymentLedger(state, 'staging');
+    ledger.forget(['PROJ-1']);
+    ledger.forget(['PROJ-1', 'PROJ-2']);
+    ledger.forget([]);
+
+    expect(state.tombstones.map((tombstone) => tombstone.ticket)).toEqual([
+      'PROJ-1',
+      'PROJ-2',
+    ]);
+  });
+
+  it('prefers the scanned head over the latest announcement', () => {
+    const state = createState();
+    const ledger = new DeploymentLedger(state, 'staging');
+    expect(ledger.getLastScan()).toEqual({ commitSha: 'bbb2222' });
+
+    ledger.recordHead('ddd4444', 'bbb2222');
+    ledger.recordHead('eee5555', 'ddd4444');
+    expect(ledger.getLastScan()).toEqual({
+      commitSha: 'eee5555',
+      baseSha: 'ddd4444',
+    });
+    expect(state.heads).toHaveLength(1);
+    expect(new DeploymentLedger(state, 'production').getLastScan()).toEqual({
+      commitSha: 'ccc3333',
+    });
+  });
+
+  it('keeps the range of a head scanned again', () => {
+    const state = createState();
+    const ledger = new DeploymentLedger(state, 'staging');
+    ledger.recordHead('ddd4444', 'bbb2222');
+    const [head] = state.heads;
+
+    ledger.recordHead('ddd4444', 'ddd4444');
+    expect(state.heads).toEqual([head]);
+  });
+});
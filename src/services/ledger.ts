@@ -0,0 +1,181 @@
+import {
+  DeploymentRecord,
+  DeploymentState,
+  Issue,
+  ScannedRange,
+} from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Ledger');
+
+// Oldest records and tombstones are dropped beyond these, keeping the state
+// small
+const MAX_RECORDS = 5000;
+const MAX_TOMBSTONES = 1000;
+
+/**
+ * Records which tickets were announced in which environment (and at which
+ * commit), so re-runs, force pushes and cherry-picks don't re-notify
+ */
+export class DeploymentLedger {
+  constructor(
+    private state: DeploymentState,
+    private environment: string
+  ) {}
+
+  /**
+   * Gets the commit a ticket was announced at in this environment, if any
+   */
+  getAnnouncedSha(ticket: string): string | undefined {
+    return this.state.deployments.find(
+      (record) =>
+        record.ticket === ticket && record.environment === this.environment
+    )?.commitSha;
+  }
+
+  /**
+   * Gets the commit of the latest announcement in this environment, if any
+   */
+  getLastNotifiedSha(): string | undefined {
+    let latest: DeploymentRecord | undefined;
+    for (const record of this.state.deployments) {
+      if (
+        record.environment === this.environment &&
+        (!latest || record.notifiedAt > latest.notifiedAt)
+      ) {
+        latest = record;
+      }
+    }
+    return latest?.commitSha;
+  }
+
+  /**
+   * Gets the last commit scanned in this environment and where its range
+   * started, falling back to the latest announcement for state saved before
+   * scans were recorded
+   */
+  getLastScan(): ScannedRange | undefined {
+    const head = this.state.heads.find(
+      (candidate) => candidate.environment === this.environment
+    );
+    if (head) {
+      return { commitSha: head.commitSha, baseSha: head.baseSha };
+    }
+    const commitSha = this.getLastNotifiedSha();
+    return commitSha ? { commitSha } : undefined;
+  }
+
+  /**
+   * Records the commit scanned in this environment, announced or not, and
+   * the commit its range started after
+   */
+  recordHead(commitSha: string, baseSha?: string): void {
+    const existing = this.state.heads.find(
+      (head) => head.environment === this.environment
+    );
+    if (existing?.commitSha === commitSha) {
+      return; // unchanged, so an unchanged state isn't saved again
+    }
+
+    const scannedAt = new Date().toISOString();
+    this.state.heads = [
+      ...this.state.heads.filter((head) => head.environment !== this.environment),
+      { environment: this.environment, commitSha, baseSha, scannedAt },
+    ];
+  }
+
+  /**
+   * Removes issues already announced in this environment
+   */
+  filterUnannounced(issues: Issue[]): Issue[] {
+    return issues.filter((issue) => {
+      const sha = this.getAnnouncedSha(issue.key);
+      if (sha) {
+        logger.info(
+          `Skipping ${issue.key}: already announced in ${this.environment} at ${sha.substring(0, 7)}`
+        );
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Keeps only issues announced in this environment, so rollbacks are only
+   * sent for tickets the PM was told about
+   */
+  filterAnnounced(issues: Issue[]): Issue[] {
+    return issues.filter((issue) => {
+      if (!this.getAnnouncedSha(issue.key)) {
+        logger.info(
+          `Skipping rollback of ${issue.key}: never announced in ${this.environment}`
+        );
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Forgets the announcements of rolled back tickets in this environment,
+   * so deploying them again is announced
+   * Tombstones keep a concurrent run's copy of the records from being
+   * merged back in
+   */
+  forget(tickets: string[]): void {
+    if (tickets.length === 0) {
+      return;
+    }
+
+    this.state.deployments = this.state.deployments.filter(
+      (record) =>
+        record.environment !== this.environment ||
+        !tickets.includes(record.ticket)
+    );
+
+    const forgottenAt = new Date().toISOString();
+    this.state.tombstones = [
+      ...this.state.tombstones.filter(
+        (tombstone) =>
+          tombstone.environment !== this.environment ||
+          !tickets.includes(tombstone.ticket)
+      ),
+      ...tickets.map((ticket) => ({
+        ticket,
+        environment: this.environment,
+        forgottenAt,
+      })),
+    ]
+      .sort((a, b) => a.forgottenAt.localeCompare(b.forgottenAt))
+      .slice(-MAX_TOMBSTONES);
+  }
+
+  /**
+   * Records tickets as announced in this environment at a commit
+   */
+  record(tickets: string[], commitSha: string): void {
+    const notifiedAt = new Date().toISOString();
+    for (const ticket of tickets) {
+      const existing = this.state.deployments.find(
+        (record) =>
+          record.ticket === ticket &&
+          record.environment === this.environment &&
+          record.commitSha === commitSha
+      );
+      if (existing) {
+        existing.notifiedAt = notifiedAt;
+      } else {
+        this.state.deployments.push({
+          ticket,
+          environment: this.environment,
+          commitSha,
+          notifiedAt,
+        });
+      }
+    }
+
+    this.state.deployments = this.state.deployments
+      .sort((a, b) => a.notifiedAt.localeCompare(b.notifiedAt))
+      .slice(-MAX_RECORDS);
+  }
+}
@@ -0,0 +1,348 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LinearService } from './linear';
+import { DeploymentMetadata, Issue } from '../types';
+
+interface GraphQLRequest {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+// Answers a GraphQL request with its response body
+type Handler = (request: GraphQLRequest) => unknown;
+
+const ACTIVE_CYCLE = {
+  id: 'cycle-2',
+  name: 'Cycle 2',
+  startsAt: '2024-01-08T00:00:00.000Z',
+  endsAt: '2024-01-22T00:00:00.000Z',
+  completedAt: null,
+};
+
+const METADATA: DeploymentMetadata = {
+  branch: 'main',
+  environment: 'staging',
+  deployedBy: 'dev',
+  commitSha: '3f9c2a1e7b5d4c8a9f0e1d2c3b4a5f6e7d8c9b0a',
+  repoUrl: 'https://github.com/acme/app',
+};
+const COMMIT_URL = `${METADATA.repoUrl}/commit/${METADATA.commitSha}`;
+
+// The workflow of team ENG, in board order
+const STATES = [
+  { id: 'state-todo', name: 'Todo', type: 'unstarted', position: 1 },
+  { id: 'state-progress', name: 'In Progress', type: 'started', position: 1 },
+  { id: 'state-review', name: 'In Review', type: 'started', position: 2 },
+  { id: 'state-done', name: 'Done', type: 'completed', position: 1 },
+];
+
+const issue = (key: string, cycle: Issue['cycle']): Issue => ({
+  id: key,
+  key,
+  summary: `Summary of ${key}`,
+  status: 'In Progress',
+  assignee: null,
+  sprint: null,
+  sprints: [],
+  cycle,
+  pmEmail: null,
+  url: `https://linear.app/acme/issue/${key}`,
+});
+
+describe('LinearService', () => {
+  let server: http.Server;
+  let handler: Handler;
+  let requests: GraphQLRequest[];
+  let status: number;
+
+  beforeEach(async () => {
+    requests = [];
+    status = 200;
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        const received = JSON.parse(body) as GraphQLRequest;
+        requests.push(received);
+        response
+          .writeHead(status, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify(handler(received)));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // The API URL is fixed, so point the client at the stand-in
+  const createService = (teamKey?: string) => {
+    const service = new LinearService('lin_api_key', teamKey);
+    service['client'].defaults.baseURL =
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return service;
+  };
+
+  describe('isInActiveSprint', () => {
+    const current = issue('ENG-1', {
+      id: 'cycle-2',
+      name: 'Cycle 2',
+      state: 'started',
+    });
+    const otherTeam = issue('ENG-2', {
+      id: 'cycle-9',
+      name: 'Other team cycle',
+      state: 'started',
+    });
+
+    it("counts only the team's active cycle when a team is set", async () => {
+      handler = () => ({
+        data: { teams: { nodes: [{ activeCycle: ACTIVE_CYCLE }] } },
+      });
+      const service = createService('ENG');
+      await service.initialize();
+
+      expect(requests[0].variables).toEqual({ teamKey: 'ENG' });
+      expect(service.isInActiveSprint(current)).toBe(true);
+      expect(service.isInActiveSprint(otherTeam)).toBe(false);
+    });
+
+    it('counts no issue when the team has no active cycle', async () => {
+      handler = () => ({
+        data: { teams: { nodes: [{ activeCycle: null }] } },
+      });
+      const service = createService('ENG');
+      await service.initialize();
+
+      expect(service.isInActiveSprint(current)).toBe(false);
+    });
+
+    it("falls back to each issue's cycle state when the team lookup fails", async () => {
+      status = 401;
+      handler = () => ({ errors: [{ message: 'Authentication required' }] });
+      const service = createService('ENG');
+      await service.initialize();
+
+      expect(service.isInActiveSprint(current)).toBe(true);
+      expect(service.isInActiveSprint(otherTeam)).toBe(true);
+      expect(
+        service.isInActiveSprint(
+          issue('ENG-3', { id: 'cycle-1', name: 'Cycle 1', state: 'completed' })
+        )
+      ).toBe(false);
+    });
+
+    it('falls back the same way when the team is not found', async () => {
+      handler = () => ({ data: { teams: { nodes: [] } } });
+      const service = createService('NOPE');
+      await service.initialize();
+
+      expect(service.isInActiveSprint(otherTeam)).toBe(true);
+    });
+  });
+
+  describe('writeBackDeployment', () => {
+    const writeBackIssue = (
+      stateName: string,
+      overrides: {
+        labels?: Array<{ id: string; name: string }>;
+        comments?: Array<{ id: string; body: string }>;
+      } = {}
+    ) => ({
+      id: 'issue-1',
+      identifier: 'ENG-1',
+      state: STATES.find((state) => state.name === stateName),
+      team: { id: 'team-eng', key: 'ENG', states: { nodes: STATES } },
+      labels: { nodes: overrides.labels ?? [] },
+      comments: { nodes: overrides.comments ?? [] },
+    });
+
+    // Answers the issue and label lookups, and every mutation successfully
+    const answer =
+      (linearIssue: ReturnType<typeof writeBackIssue>): Handler =>
+      ({ query }) => {
+        if (query.includes('WriteBackIssues')) {
+          return { data: { issues: { nodes: [linearIssue] } } };
+        }
+        if (query.includes('FindLabel')) {
+          return {
+            data: {
+              issueLabels: {
+                nodes: [{ id: 'label-staging', team: { key: 'ENG' } }],
+              },
+            },
+          };
+        }
+        const aliases = query.match(/m\d+(?=:)/g) ?? [];
+        return {
+          data: Object.fromEntries(
+            aliases.map((alias) => [alias, { success: true }])
+          ),
+        };
+      };
+    const mutation = () =>
+      requests.find((request) => request.query.includes('mutation WriteBack'));
+
+    it('moves the issue to the state, comments the deployment and adds the label', async () => {
+      handler = answer(writeBackIssue('In Progress'));
+
+      const results = await createService().writeBackDeployment(
+        [issue('ENG-1', null)],
+        {
+          metadata: METADATA,
+          commits: new Map([['ENG-1', [METADATA.commitSha]]]),
+          state: 'In Review',
+          comment: true,
+          labels: true,
+        }
+      );
+
+      expect(results.get('ENG-1')).toEqual({
+        outcome: 'transitioned',
+        from: 'In Progress',
+        to: 'In Review',
+        reason: undefined,
+      });
+      expect(requests[0].variables).toEqual({
+        ids: ['ENG-1'],
+        first: 1,
+        commitUrl: COMMIT_URL,
+      });
+      const { query, variables } = mutation()!;
+      expect(query).toContain('m0: issueUpdate');
+      expect(query).toContain('m1: commentCreate');
+      expect(query).toContain('m2: issueAddLabel');
+      expect(variables).toMatchObject({
+        id0: 'issue-1',
+        input0: { stateId: 'state-review' },
+        input1: { issueId: 'issue-1' },
+        id2: 'issue-1',
+        labelId2: 'label-staging',
+      });
+      expect((variables.input1 as { body: string }).body).toContain(
+        `[3f9c2a1](${COMMIT_URL})`
+      );
+    });
+
+    it.each([
+      ['In Review', 'already in In Review'],
+      ['Done', 'already past In Review'],
+    ])('skips moving an issue in %s', async (stateName, reason) => {
+      handler = answer(writeBackIssue(stateName));
+
+      const results = await createService().writeBackDeployment(
+        [issue('ENG-1', null)],
+        {
+          metadata: METADATA,
+          commits: new Map(),
+          state: 'In Review',
+          comment: false,
+          labels: false,
+        }
+      );
+
+      expect(results.get('ENG-1')).toMatchObject({
+        outcome: 'skipped',
+        reason,
+      });
+      expect(mutation()).toBeUndefined();
+    });
+
+    it('skips moving an issue already in a state mapped to a later environment', async () => {
+      handler = answer(writeBackIssue('Todo'));
+
+      const results = await createService().writeBackDeployment(
+        [issue('ENG-1', null)],
+        {
+          metadata: METADATA,
+          commits: new Map(),
+          state: 'In Review',
+          laterStates: ['todo'],
+          comment: false,
+          labels: false,
+        }
+      );
+
+      expect(results.get('ENG-1')?.outcome).toBe('skipped');
+    });
+
+    it("edits an earlier run's comment on the same deployment", async () => {
+      handler = answer(
+        writeBackIssue('In Progress', {
+          comments: [
+            {
+              id: 'comment-1',
+              body: `🚀 **Deployed to staging**\n\n- **Deployment:** [3f9c2a1](${COMMIT_URL})`,
+            },
+          ],
+        })
+      );
+
+      await createService().writeBackDeployment([issue('ENG-1', null)], {
+        metadata: METADATA,
+        commits: new Map(),
+        comment: true,
+        labels: false,
+      });
+
+      const { query, variables } = mutation()!;
+      expect(query).toContain('m0: commentUpdate');
+      expect(variables.id0).toBe('comment-1');
+    });
+
+    it('removes the label and leaves the state on rollback', async () => {
+      handler = answer(
+        writeBackIssue('In Review', {
+          labels: [{ id: 'label-staging', name: 'deployed:staging' }],
+        })
+      );
+
+      const results = await createService().writeBackDeployment(
+        [issue('ENG-1', null)],
+        {
+          metadata: { ...METADATA, rollback: true },
+          commits: new Map(),
+          state: 'Done',
+          comment: false,
+          labels: true,
+        }
+      );
+
+      expect(results.size).toBe(0);
+      const { query, variables } = mutation()!;
+      expect(query).toContain('m0: issueRemoveLabel');
+      expect(query).not.toContain('issueUpdate');
+      expect(variables).toEqual({ id0: 'issue-1', labelId0: 'label-staging' });
+    });
+
+    it('reports a state change Linear rejects as failed', async () => {
+      const lookup = answer(writeBackIssue('In Progress'));
+      handler = (request) =>
+        request.query.includes('mutation WriteBack')
+          ? {
+              data: { m0: null },
+              errors: [{ message: 'Entity not found', path: ['m0'] }],
+            }
+          : lookup(request);
+
+      const results = await createService().writeBackDeployment(
+        [issue('ENG-1', null)],
+        {
+          metadata: METADATA,
+          commits: new Map(),
+          state: 'In Review',
+          comment: false,
+          labels: false,
+        }
+      );
+
+      expect(results.get('ENG-1')).toMatchObject({
+        outcome: 'failed',
+        reason: 'Entity not found',
+      });
+    });
+  });
+});
@@ -1,18 +1,87 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, {
+  AxiosInstance,
+  AxiosError,
+  AxiosResponseHeaders,
+  RawAxiosResponseHeaders,
+} from 'axios';
 import {
   LinearIssue,
+  LinearCycle,
   LinearGraphQLResponse,
   LinearApiError,
+  LinearWriteBackIssue,
+  LinearWorkflowState,
+  DeploymentWriteBack,
   Issue,
   IssueTrackerService,
+  TransitionResult,
 } from '../types';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('LinearService');
 
+// Identifiers per filter query, and nodes per page (Linear's page size limit)
+const BATCH_SIZE = 50;
+const PAGE_SIZE = 100;
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RATE_LIMIT_WAIT_MS = 60000;
+
+// Mutations per write-back request
+const MUTATION_BATCH_SIZE = 25;
+const DEPLOY_LABEL_PREFIX = 'deployed:';
+
+// Workflow state types in workflow order, for skipping issues already past a state
+const STATE_TYPE_ORDER = [
+  'triage',
+  'backlog',
+  'unstarted',
+  'started',
+  'completed',
+  'canceled',
+];
+
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  url
+  state {
+    name
+    type
+  }
+  assignee {
+    name
+    email
+  }
+  cycle {
+    id
+    name
+    startsAt
+    endsAt
+    completedAt
+  }
+  team {
+    key
+    name
+  }
+`;
+
+// A write-back mutation, run aliased with others in one request
+interface LinearMutation {
+  issue: string; // identifier, for reporting
+  kind: 'state' | 'comment' | 'label';
+  name: string; // mutation field, e.g. issueUpdate
+  args: Record<string, { type: string; value: unknown }>;
+}
+
 export class LinearService implements IssueTrackerService {
   private client: AxiosInstance;
   private teamKey?: string;
+  // undefined: not team-scoped, null: team has no active cycle
+  private activeCycle?: LinearCycle | null;
+  // Epoch ms until which requests should wait, from rate-limit headers
+  private rateLimitResetAt = 0;
+  private labelIds = new Map<string, Promise<string | null>>(); // team|name → id
 
   constructor(apiKey: string, teamKey?: string) {
     this.teamKey = teamKey;
@@ -26,10 +95,16 @@ export class LinearService implements IssueTrackerService {
       timeout: 30000,
     });
 
-    // Add response interceptor for error handling
+    // Add response interceptor for rate limits and error handling
     this.client.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.recordRateLimit(response.headers);
+        return response;
+      },
       (error: AxiosError) => {
+        if (error.response) {
+          this.recordRateLimit(error.response.headers);
+        }
         const statusCode = error.response?.status;
         const message = `Linear API error: ${error.message}`;
         logger.error(message, error);
@@ -39,107 +114,116 @@ export class LinearService implements IssueTrackerService {
   }
 
   /**
-   * Gets issues by their identifiers (e.g., PROJ-123)
+   * Loads the configured team's active cycle once for cycle checks
+   */
+  async initialize(): Promise<void> {
+    if (this.teamKey) {
+      try {
+        this.activeCycle = await this.getActiveCycle(this.teamKey);
+      } catch (error) {
+        // A failed lookup says nothing about the team's cycle, so each
+        // issue's own cycle state decides instead
+        logger.warning(
+          `Failed to get the active cycle of team ${this.teamKey}, checking each issue's cycle state instead: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Gets issues by their identifiers (e.g., PROJ-123) using batched queries
    */
   async getIssues(issueIds: string[]): Promise<Issue[]> {
     if (issueIds.length === 0) {
       return [];
     }
 
+    logger.group(`Fetching ${issueIds.length} issues from Linear`);
     try {
-      logger.group(`Fetching ${issueIds.length} issues from Linear`);
-
-      const issues: Issue[] = [];
+      const issues = await this.searchIssues(issueIds);
 
-      // Linear doesn't support batch queries with specific identifiers easily,
-      // so we'll query them individually or use a filter
+      const found = new Set(issues.map((issue) => issue.key));
       for (const issueId of issueIds) {
-        const issue = await this.getIssue(issueId);
-        if (issue) {
-          issues.push(issue);
+        if (!found.has(issueId)) {
+          logger.warning(`Issue ${issueId} not found`);
         }
       }
 
       logger.info(`Found ${issues.length} issues`);
-      logger.endGroup();
-
       return issues;
-    } catch (error) {
-      logger.error('Failed to get issues', error as Error);
+    } finally {
       logger.endGroup();
-      return [];
     }
   }
 
   /**
-   * Gets a single issue by identifier
+   * Records Linear's rate-limit headers so later requests can back off
    */
-  private async getIssue(identifier: string): Promise<Issue | null> {
-    const query = `
-      query GetIssue($identifier: String!) {
-        issue(id: $identifier) {
-          id
-          identifier
-          title
-          url
-          state {
-            name
-            type
-          }
-          assignee {
-            name
-            email
-          }
-          cycle {
-            id
-            name
-            startsAt
-            endsAt
-            completedAt
-          }
-          team {
-            key
-            name
-          }
-        }
-      }
-    `;
-
-    try {
-      const response = await this.client.post<
-        LinearGraphQLResponse<{ issue: LinearIssue }>
-      >('/graphql', {
-        query,
-        variables: { identifier },
-      });
-
-      if (response.data.errors) {
+  private recordRateLimit(
+    headers: RawAxiosResponseHeaders | AxiosResponseHeaders
+  ): void {
+    for (const kind of ['requests', 'complexity']) {
+      const remaining = Number(headers[`x-ratelimit-${kind}-remaining`]);
+      const reset = Number(headers[`x-ratelimit-${kind}-reset`]);
+      if (remaining <= 0 && reset > this.rateLimitResetAt) {
         logger.warning(
-          `GraphQL errors for ${identifier}: ${JSON.stringify(response.data.errors)}`
+          `Linear ${kind} rate limit exhausted until ${new Date(reset).toISOString()}`
         );
-        return null;
+        this.rateLimitResetAt = reset;
       }
+    }
+  }
 
-      const linearIssue = response.data.data.issue;
-      if (!linearIssue) {
-        logger.warning(`Issue ${identifier} not found`);
-        return null;
-      }
+  /**
+   * Waits until the recorded rate limit window resets
+   */
+  private async waitForRateLimit(): Promise<void> {
+    const waitMs = Math.min(
+      this.rateLimitResetAt - Date.now(),
+      MAX_RATE_LIMIT_WAIT_MS
+    );
+    if (waitMs > 0) {
+      logger.info(`Waiting ${Math.ceil(waitMs / 1000)}s for Linear rate limit`);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
 
-      // If teamKey is specified, filter by team
-      if (this.teamKey && linearIssue.team.key !== this.teamKey) {
-        logger.debug(
-          `Issue ${identifier} is not in team ${this.teamKey}, skipping`
+  /**
+   * Sends a GraphQL request, retrying when Linear reports a rate limit
+   */
+  private async graphql<T>(
+    query: string,
+    variables: Record<string, unknown>
+  ): Promise<LinearGraphQLResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit();
+
+      try {
+        const response = await this.client.post<LinearGraphQLResponse<T>>(
+          '/graphql',
+          { query, variables }
         );
-        return null;
-      }
 
-      logger.debug(`Retrieved issue ${identifier}: ${linearIssue.title}`);
+        const rateLimited = response.data.errors?.some(
+          (error) => error.extensions?.code === 'RATELIMITED'
+        );
+        if (!rateLimited || attempt >= MAX_RATE_LIMIT_RETRIES) {
+          return response.data;
+        }
+      } catch (error) {
+        if (
+          (error as LinearApiError).statusCode !== 429 ||
+          attempt >= MAX_RATE_LIMIT_RETRIES
+        ) {
+          throw error;
+        }
+      }
 
-      return this.convertToGenericIssue(linearIssue);
-    } catch (error) {
-      logger.error(`Failed to get issue ${identifier}`, error as Error);
-      return null;
+      // Back off even if Linear did not send a reset header
+      this.rateLimitResetAt = Math.max(
+        this.rateLimitResetAt,
+        Date.now() + 1000 * 2 ** attempt
+      );
     }
   }
 
@@ -159,8 +243,10 @@ export class LinearService implements IssueTrackerService {
           }
         : null,
       sprint: null, // Linear uses cycles, not sprints
+      sprints: [],
       cycle: linearIssue.cycle
         ? {
+            id: linearIssue.cycle.id,
             name: linearIssue.cycle.name,
             state: this.getCycleState(linearIssue.cycle),
           }
@@ -172,10 +258,15 @@ export class LinearService implements IssueTrackerService {
 
   /**
    * Determines cycle state from Linear cycle data
+   * Uses the team's active cycle when known, otherwise the cycle dates
    */
   private getCycleState(cycle: LinearIssue['cycle']): 'started' | 'unstarted' | 'completed' {
     if (!cycle) return 'unstarted';
 
+    if (this.activeCycle && cycle.id === this.activeCycle.id) {
+      return 'started';
+    }
+
     const now = new Date();
     const startsAt = new Date(cycle.startsAt);
     const endsAt = new Date(cycle.endsAt);
@@ -204,7 +295,11 @@ export class LinearService implements IssueTrackerService {
       return false;
     }
 
-    const isActive = issue.cycle.state === 'started';
+    // Scope to the configured team's active cycle when it was loaded
+    const isActive =
+      this.activeCycle !== undefined
+        ? issue.cycle.id === this.activeCycle?.id
+        : issue.cycle.state === 'started';
     logger.debug(
       `Issue ${issue.key} cycle status: ${issue.cycle.name} (${issue.cycle.state})`
     );
@@ -250,120 +345,587 @@ export class LinearService implements IssueTrackerService {
   }
 
   /**
-   * Gets the active cycle for a team
+   * Adds a label to an issue
+   * The label must exist in the issue's team or the workspace
    */
-  async getActiveCycle(teamId: string): Promise<LinearIssue['cycle'] | null> {
+  async addLabel(issue: Issue, label: string): Promise<void> {
+    const teamKey = issue.key.split('-')[0];
+    const cacheKey = `${teamKey}|${label}`;
+    if (!this.labelIds.has(cacheKey)) {
+      this.labelIds.set(cacheKey, this.findLabelId(teamKey, label));
+    }
+    const labelId = await this.labelIds.get(cacheKey);
+    if (!labelId) {
+      logger.warning(
+        `Linear label ${label} not found for team ${teamKey}, not labeling ${issue.key}`
+      );
+      return;
+    }
+
+    const mutation = `
+      mutation AddLabel($issueId: String!, $labelId: String!) {
+        issueAddLabel(id: $issueId, labelId: $labelId) {
+          success
+        }
+      }
+    `;
+    const response = await this.graphql<{ issueAddLabel: { success: boolean } }>(
+      mutation,
+      { issueId: issue.id, labelId }
+    );
+    if (response.errors) {
+      throw new LinearApiError(
+        `GraphQL errors: ${JSON.stringify(response.errors)}`,
+        undefined,
+        response.errors
+      );
+    }
+    logger.info(`Added label ${label} to ${issue.key}`);
+  }
+
+  /**
+   * Writes a deployment back to issues: moves them to a workflow state,
+   * comments the deployment and applies (or, for rollbacks, removes) the
+   * deployed:<environment> label
+   * Issues are read and changed in batches, and changes already made are
+   * skipped, so re-runs don't duplicate comments or labels
+   * @returns The state change outcome per issue identifier
+   */
+  async writeBackDeployment(
+    issues: Issue[],
+    writeBack: DeploymentWriteBack
+  ): Promise<Map<string, TransitionResult>> {
+    const results = new Map<string, TransitionResult>();
+    const { metadata } = writeBack;
+    const label = `${DEPLOY_LABEL_PREFIX}${metadata.environment}`;
+    const commitUrl = `${metadata.repoUrl}/commit/${metadata.commitSha}`;
+
+    for (let i = 0; i < issues.length; i += BATCH_SIZE) {
+      const linearIssues = await this.getWriteBackIssues(
+        issues.slice(i, i + BATCH_SIZE).map((issue) => issue.id),
+        commitUrl
+      );
+      const mutations: LinearMutation[] = [];
+
+      for (const linearIssue of linearIssues) {
+        if (writeBack.state && !metadata.rollback) {
+          const { result, mutation } = this.planStateChange(
+            linearIssue,
+            writeBack.state,
+            writeBack.laterStates ?? []
+          );
+          results.set(linearIssue.identifier, result);
+          if (mutation) {
+            mutations.push(mutation);
+          }
+        }
+        if (writeBack.comment) {
+          mutations.push(this.planComment(linearIssue, writeBack));
+        }
+        if (writeBack.labels) {
+          const mutation = await this.planLabel(
+            linearIssue,
+            label,
+            !metadata.rollback
+          );
+          if (mutation) {
+            mutations.push(mutation);
+          }
+        }
+      }
+
+      for (const [mutation, message] of await this.runMutations(mutations)) {
+        logger.warning(
+          `Failed to update ${mutation.kind} of ${mutation.issue}: ${message}`
+        );
+        const result = results.get(mutation.issue);
+        if (mutation.kind === 'state' && result) {
+          results.set(mutation.issue, { ...result, outcome: 'failed', reason: message });
+        }
+      }
+      logger.info(
+        `Wrote deployment back to ${linearIssues.length} Linear issue(s) with ${mutations.length} change(s)`
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetches the state, team workflow and labels of issues, and only the
+   * comments linking the deployed commit, so older deployments don't push
+   * an earlier run's comment out of the page
+   */
+  private async getWriteBackIssues(
+    ids: string[],
+    commitUrl: string
+  ): Promise<LinearWriteBackIssue[]> {
+    const state = 'id name type position';
     const query = `
-      query GetActiveCycle($teamId: String!) {
-        team(id: $teamId) {
-          activeCycle {
+      query WriteBackIssues($ids: [ID!], $first: Int!, $commitUrl: String!) {
+        issues(filter: { id: { in: $ids } }, first: $first) {
+          nodes {
             id
-            name
-            startsAt
-            endsAt
-            completedAt
+            identifier
+            state { ${state} }
+            team {
+              id
+              key
+              states { nodes { ${state} } }
+            }
+            labels { nodes { id name } }
+            comments(filter: { body: { contains: $commitUrl } }) {
+              nodes { id body }
+            }
           }
         }
       }
     `;
 
-    try {
-      const response = await this.client.post<
-        LinearGraphQLResponse<{ team: { activeCycle: LinearIssue['cycle'] } }>
-      >('/graphql', {
-        query,
-        variables: { teamId },
-      });
+    const response = await this.graphql<{
+      issues: { nodes: LinearWriteBackIssue[] };
+    }>(query, { ids, first: ids.length, commitUrl });
+    if (response.errors) {
+      throw new LinearApiError(
+        `GraphQL errors: ${JSON.stringify(response.errors)}`,
+        undefined,
+        response.errors
+      );
+    }
+    return response.data.issues.nodes;
+  }
 
-      if (response.data.errors) {
-        logger.warning(`GraphQL errors: ${JSON.stringify(response.data.errors)}`);
-        return null;
-      }
+  /**
+   * Plans moving an issue to a workflow state, given by name or by type
+   * (the team's first state of that type)
+   * Issues in the state, in a later mapped state, later type or later
+   * column of the same type are skipped
+   */
+  private planStateChange(
+    linearIssue: LinearWriteBackIssue,
+    state: string,
+    laterStates: string[]
+  ): { result: TransitionResult; mutation?: LinearMutation } {
+    const current = linearIssue.state;
+    const result = (
+      outcome: TransitionResult['outcome'],
+      reason?: string,
+      to = state
+    ): { result: TransitionResult } => ({
+      result: { outcome, from: current.name, to, reason },
+    });
+    const matches = (candidate: LinearWorkflowState, nameOrType: string) =>
+      candidate.name.toLowerCase() === nameOrType.toLowerCase() ||
+      candidate.type === nameOrType.toLowerCase();
+
+    const states = linearIssue.team.states.nodes;
+    const target =
+      states.find((s) => s.name.toLowerCase() === state.toLowerCase()) ??
+      states
+        .filter((s) => s.type === state.toLowerCase())
+        .sort((a, b) => a.position - b.position)[0];
+
+    if (!target) {
+      return result('failed', `team ${linearIssue.team.key} has no ${state} state`);
+    }
+    if (target.id === current.id) {
+      return result('skipped', `already in ${current.name}`, target.name);
+    }
+
+    const currentOrder = STATE_TYPE_ORDER.indexOf(current.type);
+    const targetOrder = STATE_TYPE_ORDER.indexOf(target.type);
+    if (
+      laterStates.some((later) => matches(current, later)) ||
+      currentOrder > targetOrder ||
+      (currentOrder === targetOrder && current.position > target.position)
+    ) {
+      return result('skipped', `already past ${target.name}`, target.name);
+    }
+
+    return {
+      ...result('transitioned', undefined, target.name),
+      mutation: {
+        issue: linearIssue.identifier,
+        kind: 'state',
+        name: 'issueUpdate',
+        args: {
+          id: { type: 'String!', value: linearIssue.id },
+          input: { type: 'IssueUpdateInput!', value: { stateId: target.id } },
+        },
+      },
+    };
+  }
+
+  /**
+   * Plans the deployment comment, editing the one left by an earlier run
+   * for the same environment and commit
+   */
+  private planComment(
+    linearIssue: LinearWriteBackIssue,
+    writeBack: DeploymentWriteBack
+  ): LinearMutation {
+    const { metadata } = writeBack;
+    const heading = metadata.rollback
+      ? `Rolled back from ${metadata.environment}`
+      : `Deployed to ${metadata.environment}`;
+    const commitUrl = `${metadata.repoUrl}/commit/${metadata.commitSha}`;
+    const commits = writeBack.commits.get(linearIssue.identifier) ?? [];
+
+    const body = [
+      `${metadata.rollback ? '⏪' : '🚀'} **${heading}**`,
+      '',
+      `- **Branch:** \`${metadata.branch}\``,
+      `- **Deployed by:** ${metadata.deployedBy}`,
+      ...(commits.length > 0
+        ? [
+            `- **Commits:** ${commits.map((sha) => `[${sha.substring(0, 7)}](${metadata.repoUrl}/commit/${sha})`).join(', ')}`,
+          ]
+        : []),
+      `- **Deployment:** [${metadata.commitSha.substring(0, 7)}](${commitUrl})`,
+    ].join('\n');
+
+    const existing = linearIssue.comments.nodes.find(
+      (comment) =>
+        comment.body.includes(heading) && comment.body.includes(commitUrl)
+    );
+    return existing
+      ? {
+          issue: linearIssue.identifier,
+          kind: 'comment',
+          name: 'commentUpdate',
+          args: {
+            id: { type: 'String!', value: existing.id },
+            input: { type: 'CommentUpdateInput!', value: { body } },
+          },
+        }
+      : {
+          issue: linearIssue.identifier,
+          kind: 'comment',
+          name: 'commentCreate',
+          args: {
+            input: {
+              type: 'CommentCreateInput!',
+              value: { issueId: linearIssue.id, body },
+            },
+          },
+        };
+  }
+
+  /**
+   * Plans adding or removing a label, unless the issue already has (or
+   * lacks) it
+   */
+  private async planLabel(
+    linearIssue: LinearWriteBackIssue,
+    name: string,
+    add: boolean
+  ): Promise<LinearMutation | undefined> {
+    const existing = linearIssue.labels.nodes.find(
+      (label) => label.name.toLowerCase() === name.toLowerCase()
+    );
+    if (add === Boolean(existing)) {
+      return undefined;
+    }
+
+    const labelId = existing?.id ?? (await this.getDeployLabelId(linearIssue.team, name));
+    if (!labelId) {
+      return undefined;
+    }
+    return {
+      issue: linearIssue.identifier,
+      kind: 'label',
+      name: add ? 'issueAddLabel' : 'issueRemoveLabel',
+      args: {
+        id: { type: 'String!', value: linearIssue.id },
+        labelId: { type: 'String!', value: labelId },
+      },
+    };
+  }
 
-      const activeCycle = response.data.data.team.activeCycle;
-      if (activeCycle) {
-        logger.info(`Found active cycle: ${activeCycle.name}`);
+  /**
+   * Gets a deploy label of a team, creating it on first use
+   */
+  private getDeployLabelId(
+    team: { id: string; key: string },
+    name: string
+  ): Promise<string | null> {
+    const cacheKey = `${team.key}|${name}`;
+    let labelId = this.labelIds.get(cacheKey);
+    if (!labelId) {
+      labelId = this.findLabelId(team.key, name).then(
+        (id) => id ?? this.createLabel(team.id, name)
+      );
+      this.labelIds.set(cacheKey, labelId);
+    }
+    return labelId;
+  }
+
+  /**
+   * Creates a team label
+   */
+  private async createLabel(teamId: string, name: string): Promise<string | null> {
+    const mutation = `
+      mutation CreateLabel($input: IssueLabelCreateInput!) {
+        issueLabelCreate(input: $input) {
+          issueLabel {
+            id
+          }
+        }
       }
+    `;
 
-      return activeCycle;
-    } catch (error) {
-      logger.error('Failed to get active cycle', error as Error);
+    const response = await this.graphql<{
+      issueLabelCreate: { issueLabel: { id: string } | null };
+    }>(mutation, { input: { teamId, name } });
+    if (response.errors) {
+      logger.warning(
+        `Failed to create Linear label ${name}: ${JSON.stringify(response.errors)}`
+      );
       return null;
     }
+    logger.info(`Created Linear label ${name}`);
+    return response.data.issueLabelCreate.issueLabel?.id ?? null;
   }
 
   /**
-   * Searches for issues using Linear's search functionality
+   * Runs mutations aliased in batches
+   * @returns The mutations that failed, with their error messages
    */
-  async searchIssues(identifiers: string[]): Promise<Issue[]> {
-    if (identifiers.length === 0) {
-      return [];
-    }
+  private async runMutations(
+    mutations: LinearMutation[]
+  ): Promise<Map<LinearMutation, string>> {
+    const failures = new Map<LinearMutation, string>();
+
+    for (let i = 0; i < mutations.length; i += MUTATION_BATCH_SIZE) {
+      const batch = mutations.slice(i, i + MUTATION_BATCH_SIZE);
+      const declarations: string[] = [];
+      const fields: string[] = [];
+      const variables: Record<string, unknown> = {};
+
+      batch.forEach((mutation, index) => {
+        const args = Object.entries(mutation.args).map(([name, arg]) => {
+          const variable = `${name}${index}`;
+          declarations.push(`$${variable}: ${arg.type}`);
+          variables[variable] = arg.value;
+          return `${name}: $${variable}`;
+        });
+        fields.push(`m${index}: ${mutation.name}(${args.join(', ')}) { success }`);
+      });
 
-    // Build a filter for multiple identifiers
-    const filter: {
-      or: { identifier: { eq: string } }[];
-      team?: { key: { eq: string } };
-    } = {
-      or: identifiers.map((id) => ({ identifier: { eq: id } })),
-    };
+      try {
+        const response = await this.graphql<
+          Record<string, { success: boolean } | null>
+        >(
+          `mutation WriteBack(${declarations.join(', ')}) {\n${fields.join('\n')}\n}`,
+          variables
+        );
 
-    if (this.teamKey) {
-      filter.team = { key: { eq: this.teamKey } };
+        for (const error of response.errors ?? []) {
+          // Errors without a path (e.g. validation) fail the whole batch
+          const alias = error.path?.[0];
+          const failed = alias
+            ? [batch[Number(alias.substring(1))]].filter(Boolean)
+            : batch;
+          failed.forEach((mutation) => failures.set(mutation, error.message));
+        }
+        batch.forEach((mutation, index) => {
+          if (
+            !failures.has(mutation) &&
+            response.data?.[`m${index}`]?.success === false
+          ) {
+            failures.set(mutation, `${mutation.name} was not successful`);
+          }
+        });
+      } catch (error) {
+        batch.forEach((mutation) =>
+          failures.set(mutation, (error as Error).message)
+        );
+      }
     }
 
+    return failures;
+  }
+
+  /**
+   * Finds a label by name, preferring the team's own over a workspace label
+   */
+  private async findLabelId(
+    teamKey: string,
+    name: string
+  ): Promise<string | null> {
     const query = `
-      query SearchIssues($filter: IssueFilter!) {
-        issues(filter: $filter, first: 100) {
+      query FindLabel($name: String!) {
+        issueLabels(filter: { name: { eqIgnoreCase: $name } }) {
           nodes {
             id
-            identifier
-            title
-            url
-            state {
-              name
-              type
-            }
-            assignee {
-              name
-              email
+            team {
+              key
             }
-            cycle {
+          }
+        }
+      }
+    `;
+
+    const response = await this.graphql<{
+      issueLabels: { nodes: Array<{ id: string; team: { key: string } | null }> };
+    }>(query, { name });
+    if (response.errors) {
+      logger.warning(`GraphQL errors: ${JSON.stringify(response.errors)}`);
+      return null;
+    }
+
+    const labels = response.data.issueLabels.nodes;
+    return (
+      labels.find((label) => label.team?.key === teamKey)?.id ??
+      labels.find((label) => !label.team)?.id ??
+      null
+    );
+  }
+
+  /**
+   * Gets the active cycle for a team
+   * @returns The cycle, or null when the team has no active cycle
+   * @throws LinearApiError when the team can't be read
+   */
+  async getActiveCycle(teamKey: string): Promise<LinearCycle | null> {
+    const query = `
+      query GetActiveCycle($teamKey: String!) {
+        teams(filter: { key: { eq: $teamKey } }) {
+          nodes {
+            activeCycle {
               id
               name
               startsAt
               endsAt
               completedAt
             }
-            team {
-              key
-              name
-            }
           }
         }
       }
     `;
 
-    try {
-      const response = await this.client.post<
-        LinearGraphQLResponse<{ issues: { nodes: LinearIssue[] } }>
-      >('/graphql', {
-        query,
-        variables: { filter },
-      });
+    const response = await this.graphql<{
+      teams: { nodes: Array<{ activeCycle: LinearCycle | null }> };
+    }>(query, { teamKey });
 
-      if (response.data.errors) {
-        logger.warning(`GraphQL errors: ${JSON.stringify(response.data.errors)}`);
-        return [];
-      }
+    if (response.errors) {
+      throw new LinearApiError(
+        `GraphQL errors: ${JSON.stringify(response.errors)}`,
+        undefined,
+        response.errors
+      );
+    }
+
+    const team = response.data.teams.nodes[0];
+    if (!team) {
+      throw new LinearApiError(`Linear team ${teamKey} not found`);
+    }
 
-      const linearIssues = response.data.data.issues.nodes;
-      logger.info(`Found ${linearIssues.length} issues via search`);
+    const activeCycle = team.activeCycle;
+    if (activeCycle) {
+      logger.info(`Found active cycle: ${activeCycle.name}`);
+    } else {
+      logger.warning(`No active cycle found for team ${teamKey}`);
+    }
 
-      return linearIssues.map((issue) => this.convertToGenericIssue(issue));
-    } catch (error) {
-      logger.error('Failed to search issues', error as Error);
+    return activeCycle;
+  }
+
+  /**
+   * Searches for issues by identifier in batches
+   * Identifiers are grouped by team key and matched on issue number,
+   * chunked per query and paginated beyond the page size
+   */
+  async searchIssues(identifiers: string[]): Promise<Issue[]> {
+    if (identifiers.length === 0) {
       return [];
     }
+
+    // Group issue numbers by team key (TEAM-123 → TEAM: [123])
+    const numbersByTeam = new Map<string, number[]>();
+    for (const identifier of identifiers) {
+      const [teamKey, number] = identifier.split('-');
+      if (this.teamKey && teamKey !== this.teamKey) {
+        logger.debug(
+          `Issue ${identifier} is not in team ${this.teamKey}, skipping`
+        );
+        continue;
+      }
+      const numbers = numbersByTeam.get(teamKey) ?? [];
+      numbers.push(Number(number));
+      numbersByTeam.set(teamKey, numbers);
+    }
+
+    const issues: Issue[] = [];
+    for (const [teamKey, numbers] of numbersByTeam) {
+      for (let i = 0; i < numbers.length; i += BATCH_SIZE) {
+        const linearIssues = await this.searchTeamIssues(
+          teamKey,
+          numbers.slice(i, i + BATCH_SIZE)
+        );
+        issues.push(
+          ...linearIssues.map((issue) => this.convertToGenericIssue(issue))
+        );
+      }
+    }
+
+    logger.info(`Found ${issues.length} issues via search`);
+    return issues;
+  }
+
+  /**
+   * Fetches all issues of a team matching the given numbers, following cursors
+   */
+  private async searchTeamIssues(
+    teamKey: string,
+    numbers: number[]
+  ): Promise<LinearIssue[]> {
+    const query = `
+      query SearchIssues($filter: IssueFilter!, $first: Int!, $after: String) {
+        issues(filter: $filter, first: $first, after: $after) {
+          nodes {
+            ${ISSUE_FIELDS}
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    `;
+
+    const filter = {
+      team: { key: { eq: teamKey } },
+      number: { in: numbers },
+    };
+
+    const linearIssues: LinearIssue[] = [];
+    let after: string | null = null;
+
+    do {
+      const response: LinearGraphQLResponse<{
+        issues: {
+          nodes: LinearIssue[];
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        };
+      }> = await this.graphql(query, { filter, first: PAGE_SIZE, after });
+
+      if (response.errors) {
+        throw new LinearApiError(
+          `GraphQL errors: ${JSON.stringify(response.errors)}`,
+          undefined,
+          response.errors
+        );
+      }
+
+      const { nodes, pageInfo } = response.data.issues;
+      linearIssues.push(...nodes);
+      after = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+    } while (after);
+
+    logger.debug(
+      `Retrieved ${linearIssues.length}/${numbers.length} issues for team ${teamKey}`
+    );
+    return linearIssues;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,99 @@
+import { MultiTrackerService } from './multi-tracker';
+import { Issue, IssueTrackerService } from '../types';
+
+const issue = (key: string, pmEmail: string | null = null): Issue => ({
+  id: key,
+  key,
+  summary: `Summary of ${key}`,
+  status: 'In Review',
+  assignee: null,
+  sprint: null,
+  sprints: [],
+  cycle: null,
+  pmEmail,
+  url: `https://example.com/${key}`,
+});
+
+/**
+ * A tracker returning every requested issue, active when listed
+ */
+const createTracker = (
+  name: string,
+  activeKeys: string[] = []
+): IssueTrackerService & { requested: string[][] } => {
+  const requested: string[][] = [];
+  return {
+    requested,
+    getIssues: async (ids) => {
+      requested.push(ids);
+      return ids.map((id) => issue(id, `${name}-pm@example.com`));
+    },
+    isInActiveSprint: (i) => activeKeys.includes(i.key),
+    filterByStatus: (issues) => issues,
+    getPmEmail: (i) => i.pmEmail,
+    getIssueUrl: (id) => `https://${name}.example.com/${id}`,
+  };
+};
+
+describe('MultiTrackerService', () => {
+  it('routes issue IDs to the tracker mapped to their prefix', async () => {
+    const jira = createTracker('jira');
+    const linear = createTracker('linear');
+    const service = new MultiTrackerService(
+      { jira, linear },
+      { PROJ: 'jira', ENG: 'linear' }
+    );
+
+    const issues = await service.getIssues(['PROJ-1', 'ENG-2', 'PROJ-3']);
+
+    expect(jira.requested).toEqual([['PROJ-1', 'PROJ-3']]);
+    expect(linear.requested).toEqual([['ENG-2']]);
+    expect(issues.map((i) => i.key)).toEqual(['PROJ-1', 'PROJ-3', 'ENG-2']);
+    expect(service.getIssueUrl('ENG-2')).toBe(
+      'https://linear.example.com/ENG-2'
+    );
+  });
+
+  it('skips prefixes missing from the prefix map', async () => {
+    const jira = createTracker('jira');
+    const service = new MultiTrackerService({ jira }, { PROJ: 'jira' });
+
+    const issues = await service.getIssues(['PROJ-1', 'OPS-2']);
+
+    expect(jira.requested).toEqual([['PROJ-1']]);
+    expect(issues.map((i) => i.key)).toEqual(['PROJ-1']);
+  });
+
+  it('fails clearly when a prefix maps to a tracker that is not configured', async () => {
+    const service = new MultiTrackerService(
+      { jira: createTracker('jira') },
+      { PROJ: 'jira', ENG: 'linear' }
+    );
+
+    await expect(service.getIssues(['ENG-1'])).rejects.toThrow(
+      'No linear tracker configured for prefix ENG'
+    );
+  });
+
+  it("delegates checks to each issue's own tracker", async () => {
+    const jira = createTracker('jira', ['PROJ-1']);
+    const linear = createTracker('linear', ['ENG-2']);
+    const service = new MultiTrackerService(
+      { jira, linear },
+      { PROJ: 'jira', ENG: 'linear' }
+    );
+    const [proj1, proj3, eng2] = await service.getIssues([
+      'PROJ-1',
+      'PROJ-3',
+      'ENG-2',
+    ]);
+
+    expect([proj1, proj3, eng2].map((i) => service.isInActiveSprint(i))).toEqual(
+      [true, false, true]
+    );
+    expect(service.getPmEmail(eng2)).toBe('linear-pm@example.com');
+    await expect(service.transitionIssue(eng2, 'QA')).resolves.toMatchObject({
+      outcome: 'skipped',
+    });
+  });
+});
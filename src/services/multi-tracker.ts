@@ -0,0 +1,204 @@
+import {
+  ConfigurationError,
+  DeploymentComment,
+  DeploymentWriteBack,
+  Issue,
+  IssueTrackerService,
+  TrackerType,
+  TransitionResult,
+} from '../types';
+import { detectIssueTracker, getIssuePrefix } from '../utils/parser';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('MultiTrackerService');
+
+/**
+ * Routes issue IDs to several trackers by prefix and merges the results
+ * Sprint/cycle, status and PM checks are delegated to the owning tracker
+ */
+export class MultiTrackerService implements IssueTrackerService {
+  private services: Partial<Record<TrackerType, IssueTrackerService>>;
+  private prefixMap: Record<string, TrackerType>;
+  private issueOwners = new Map<string, IssueTrackerService>();
+
+  constructor(
+    services: Partial<Record<TrackerType, IssueTrackerService>>,
+    prefixMap: Record<string, TrackerType>
+  ) {
+    this.services = services;
+    this.prefixMap = prefixMap;
+  }
+
+  /**
+   * Initializes every underlying tracker
+   */
+  async initialize(): Promise<void> {
+    for (const service of Object.values(this.services)) {
+      await service?.initialize?.();
+    }
+  }
+
+  /**
+   * Gets issues from each tracker and merges them
+   */
+  async getIssues(issueIds: string[]): Promise<Issue[]> {
+    const idsByTracker = new Map<TrackerType, string[]>();
+    const unmappedPrefixes = new Set<string>();
+
+    for (const issueId of issueIds) {
+      const tracker = detectIssueTracker(issueId, this.prefixMap);
+      if (tracker === 'unknown') {
+        const prefix = getIssuePrefix(issueId);
+        if (!unmappedPrefixes.has(prefix)) {
+          unmappedPrefixes.add(prefix);
+          logger.warning(
+            `Prefix ${prefix} is not in tracker_prefix_map, skipping ${prefix} issues`
+          );
+        }
+        continue;
+      }
+      const ids = idsByTracker.get(tracker) ?? [];
+      ids.push(issueId);
+      idsByTracker.set(tracker, ids);
+    }
+
+    const issues: Issue[] = [];
+    for (const [tracker, ids] of idsByTracker) {
+      const service = this.getService(tracker, getIssuePrefix(ids[0]));
+      logger.info(`Routing ${ids.length} issue(s) to ${tracker}`);
+
+      for (const issue of await service.getIssues(ids)) {
+        this.issueOwners.set(issue.key, service);
+        issues.push(issue);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Checks the active sprint/cycle using the issue's own tracker
+   */
+  isInActiveSprint(issue: Issue): boolean {
+    return this.getOwner(issue)?.isInActiveSprint(issue) ?? false;
+  }
+
+  /**
+   * Filters issues by status using each issue's own tracker
+   */
+  filterByStatus(issues: Issue[], allowedStatuses?: string[]): Issue[] {
+    return issues.filter(
+      (issue) =>
+        this.getOwner(issue)?.filterByStatus([issue], allowedStatuses)
+          .length === 1
+    );
+  }
+
+  /**
+   * Gets the PM email using the issue's own tracker
+   */
+  getPmEmail(issue: Issue): string | null {
+    return this.getOwner(issue)?.getPmEmail(issue) ?? issue.pmEmail;
+  }
+
+  /**
+   * Adds a label using the issue's own tracker, when it supports labels
+   */
+  async addLabel(issue: Issue, label: string): Promise<void> {
+    const owner = this.getOwner(issue);
+    if (!owner?.addLabel) {
+      logger.debug(`The tracker for ${issue.key} doesn't support labels`);
+      return;
+    }
+    await owner.addLabel(issue, label);
+  }
+
+  /**
+   * Comments a deployment using the issue's own tracker, when it supports it
+   */
+  async commentOnDeployment(
+    issue: Issue,
+    deployment: DeploymentComment
+  ): Promise<void> {
+    const owner = this.getOwner(issue);
+    if (!owner?.commentOnDeployment) {
+      logger.debug(`The tracker for ${issue.key} doesn't support deployment comments`);
+      return;
+    }
+    await owner.commentOnDeployment(issue, deployment);
+  }
+
+  /**
+   * Transitions an issue using its own tracker, when it supports transitions
+   */
+  async transitionIssue(
+    issue: Issue,
+    status: string,
+    laterStatuses?: string[]
+  ): Promise<TransitionResult> {
+    const owner = this.getOwner(issue);
+    if (!owner?.transitionIssue) {
+      return {
+        outcome: 'skipped',
+        from: issue.status,
+        to: status,
+        reason: "the issue's tracker doesn't support transitions",
+      };
+    }
+    return owner.transitionIssue(issue, status, laterStatuses);
+  }
+
+  /**
+   * Writes a deployment back through each issue's own tracker, when it
+   * supports write-back
+   */
+  async writeBackDeployment(
+    issues: Issue[],
+    writeBack: DeploymentWriteBack
+  ): Promise<Map<string, TransitionResult>> {
+    const issuesByOwner = new Map<IssueTrackerService, Issue[]>();
+    for (const issue of issues) {
+      const owner = this.getOwner(issue);
+      if (owner?.writeBackDeployment) {
+        issuesByOwner.set(owner, [...(issuesByOwner.get(owner) ?? []), issue]);
+      }
+    }
+
+    const results = new Map<string, TransitionResult>();
+    for (const [owner, ownerIssues] of issuesByOwner) {
+      const ownerResults = await owner.writeBackDeployment?.(ownerIssues, writeBack);
+      ownerResults?.forEach((result, key) => results.set(key, result));
+    }
+    return results;
+  }
+
+  /**
+   * Constructs the URL for an issue using the tracker for its prefix
+   */
+  getIssueUrl(issueId: string): string {
+    const tracker = detectIssueTracker(issueId, this.prefixMap);
+    const service = tracker !== 'unknown' ? this.services[tracker] : undefined;
+    return service?.getIssueUrl(issueId) ?? issueId;
+  }
+
+  /**
+   * Gets the service for a tracker an issue prefix was routed to
+   * @throws ConfigurationError when that tracker isn't configured
+   */
+  private getService(tracker: TrackerType, prefix: string): IssueTrackerService {
+    const service = this.services[tracker];
+    if (!service) {
+      throw new ConfigurationError(
+        `No ${tracker} tracker configured for prefix ${prefix}`
+      );
+    }
+    return service;
+  }
+
+  /**
+   * Gets the tracker that returned an issue
+   */
+  private getOwner(issue: Issue): IssueTrackerService | undefined {
+    return this.issueOwners.get(issue.key);
+  }
+}
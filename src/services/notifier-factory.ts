@@ -0,0 +1,77 @@
+import { SlackService } from './slack';
+import { TeamsService } from './teams';
+import { WebhookService } from './webhook';
+import { DiscordService } from './discord';
+import { EmailService } from './email';
+import { Config, ConfigurationError, Notifier, NotifierType } from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('NotifierFactory');
+
+export type Notifiers = Partial<Record<NotifierType, Notifier>>;
+
+/**
+ * Creates every notifier that has credentials configured
+ * The default notifier (used for unprefixed targets) must be available
+ */
+export function createNotifiers(config: Config): Notifiers {
+  const notifiers: Notifiers = {};
+
+  if (config.slackBotToken) {
+    logger.info('Initializing Slack notifier');
+    notifiers.slack = new SlackService(config.slackBotToken);
+  }
+
+  if (config.teamsWebhookUrl || config.teamsGraphToken) {
+    logger.info(
+      `Initializing Teams notifier (${config.teamsGraphToken ? 'Graph' : 'incoming webhook'})`
+    );
+    notifiers.teams = new TeamsService({
+      webhookUrl: config.teamsWebhookUrl,
+      graphToken: config.teamsGraphToken,
+    });
+  }
+
+  // Webhook notifiers also accept explicit URL targets, so they need no config
+  notifiers.webhook = new WebhookService({
+    url: config.webhookUrl,
+    secret: config.webhookSecret,
+  });
+  notifiers.discord = new DiscordService({
+    webhookUrl: config.discordWebhookUrl,
+  });
+
+  if (config.smtpHost) {
+    if (!config.emailFrom) {
+      throw new ConfigurationError('email_from is required when smtp_host is set');
+    }
+    logger.info(`Initializing email notifier (${config.smtpHost}:${config.smtpPort})`);
+    notifiers.email = new EmailService({
+      host: config.smtpHost,
+      port: config.smtpPort,
+      secure: config.smtpSecure,
+      username: config.smtpUsername,
+      password: config.smtpPassword,
+      from: config.emailFrom,
+    });
+  }
+
+  if (!notifiers[config.notifier]) {
+    switch (config.notifier) {
+      case 'slack':
+        throw new ConfigurationError(
+          'slack_bot_token is required when notifier is "slack"'
+        );
+      case 'teams':
+        throw new ConfigurationError(
+          'teams_webhook_url or teams_graph_token is required when notifier is "teams"'
+        );
+      case 'email':
+        throw new ConfigurationError(
+          'smtp_host and email_from are required when notifier is "email"'
+        );
+    }
+  }
+
+  return notifiers;
+}
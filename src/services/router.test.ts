@@ -0,0 +1,167 @@
+import { groupIssuesByRoute, parseRoute } from './router';
+import { Notifiers } from './notifier-factory';
+import {
+  Config,
+  ConfigSchema,
+  Issue,
+  IssueTrackerService,
+  Notifier,
+} from '../types';
+
+const issue = (key: string, pmEmail: string | null = null): Issue => ({
+  id: key,
+  key,
+  summary: `Summary of ${key}`,
+  status: 'In Review',
+  assignee: null,
+  sprint: null,
+  sprints: [],
+  cycle: null,
+  pmEmail,
+  url: `https://example.com/${key}`,
+});
+
+const tracker: IssueTrackerService = {
+  getIssues: async () => [],
+  isInActiveSprint: () => true,
+  filterByStatus: (issues) => issues,
+  getPmEmail: (issue) => issue.pmEmail,
+  getIssueUrl: (issueId) => issueId,
+};
+
+// Slack users exist for the emails listed here
+const createNotifier = (users: Record<string, string> = {}): Notifier => ({
+  sendNotification: async () => undefined,
+  updateNotification: async () => undefined,
+  getUserIdByEmail: async (email) => users[email] ?? null,
+});
+
+const createConfig = (overrides: Partial<Config> = {}): Config =>
+  ConfigSchema.parse({ environment: 'staging', ...overrides });
+
+const route = async (
+  issues: Issue[],
+  config: Config,
+  notifiers: Notifiers
+): Promise<Record<string, string[]>> => {
+  const groups = await groupIssuesByRoute(issues, config, tracker, notifiers);
+  return Object.fromEntries(
+    [...groups].map(([key, group]) => [key, group.map((i) => i.key)])
+  );
+};
+
+describe('parseRoute', () => {
+  it('reads the notifier prefix, defaulting to the configured notifier', () => {
+    expect(parseRoute('teams:webhook', 'slack')).toEqual({
+      notifier: 'teams',
+      target: 'webhook',
+    });
+    expect(parseRoute('C0123', 'slack')).toEqual({
+      notifier: 'slack',
+      target: 'C0123',
+    });
+    expect(parseRoute('https://example.com/hook', 'webhook')).toEqual({
+      notifier: 'webhook',
+      target: 'https://example.com/hook',
+    });
+  });
+});
+
+describe('groupIssuesByRoute', () => {
+  const slack = createNotifier({ 'pm@example.com': 'U_PM' });
+
+  it('prefers the PM, then the project mapping, then the fallback', async () => {
+    const config = createConfig({
+      slackChannelOrUser: 'C_FALLBACK',
+      pmMapping: { OPS: 'C_OPS' },
+    });
+
+    expect(
+      await route(
+        [
+          issue('PROJ-1', 'pm@example.com'),
+          issue('OPS-2', 'stranger@example.com'),
+          issue('PROJ-3'),
+        ],
+        config,
+        { slack }
+      )
+    ).toEqual({
+      'slack:U_PM': ['PROJ-1'],
+      'slack:C_OPS': ['OPS-2'],
+      'slack:C_FALLBACK': ['PROJ-3'],
+    });
+  });
+
+  it('uses user overrides before looking PMs up', async () => {
+    const config = createConfig({
+      slackChannelOrUser: 'C_FALLBACK',
+      jiraUsers: { 'pm@example.com': 'U_OVERRIDE' },
+    });
+
+    expect(
+      await route([issue('PROJ-1', 'pm@example.com')], config, { slack })
+    ).toEqual({ 'slack:U_OVERRIDE': ['PROJ-1'] });
+  });
+
+  it('prefers the environment channel over the configured fallback', async () => {
+    const config = createConfig({
+      slackChannelOrUser: 'C_FALLBACK',
+      channelMapping: { staging: ['C_STAGING', 'teams:webhook'] },
+    });
+
+    expect(await route([issue('PROJ-1')], config, { slack })).toEqual({
+      'slack:C_STAGING': ['PROJ-1'],
+      'teams:webhook': ['PROJ-1'],
+    });
+  });
+
+  it('emails PMs without a chat user, or always with email_mode always', async () => {
+    const email = createNotifier();
+    const issues = [
+      issue('PROJ-1', 'pm@example.com'),
+      issue('PROJ-2', 'contractor@example.com'),
+    ];
+
+    expect(await route(issues, createConfig(), { slack, email })).toEqual({
+      'slack:U_PM': ['PROJ-1'],
+      'email:contractor@example.com': ['PROJ-2'],
+    });
+    expect(
+      await route(issues, createConfig({ emailMode: 'always' }), {
+        slack,
+        email,
+      })
+    ).toEqual({
+      'slack:U_PM': ['PROJ-1'],
+      'email:pm@example.com': ['PROJ-1'],
+      'email:contractor@example.com': ['PROJ-2'],
+    });
+  });
+
+  it('adds the fallback channel to every route with alwaysNotifyChannel', async () => {
+    const config = createConfig({
+      slackChannelOrUser: 'C_FALLBACK',
+      alwaysNotifyChannel: true,
+    });
+
+    expect(
+      await route([issue('PROJ-1', 'pm@example.com')], config, { slack })
+    ).toEqual({
+      'slack:U_PM': ['PROJ-1'],
+      'slack:C_FALLBACK': ['PROJ-1'],
+    });
+  });
+
+  it('only needs a fallback target when an issue falls back to it', async () => {
+    const config = createConfig({ notifier: 'email' });
+    const email = createNotifier();
+
+    expect(
+      await route([issue('PROJ-1', 'pm@example.com')], config, { email })
+    ).toEqual({ 'email:pm@example.com': ['PROJ-1'] });
+    await expect(route([issue('PROJ-2')], config, { email })).rejects.toThrow(
+      'No fallback target for environment staging'
+    );
+  });
+});
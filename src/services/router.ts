@@ -0,0 +1,204 @@
+import { getProjectKey } from './tracker-factory';
+import { Notifiers } from './notifier-factory';
+import {
+  Config,
+  ConfigurationError,
+  Issue,
+  IssueTrackerService,
+  NotifierType,
+  NotifierTypeSchema,
+} from '../types';
+import { toTargetList } from '../utils/config-file';
+import { getIssuePrefix } from '../utils/parser';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Router');
+
+/**
+ * A notification destination: which notifier, and the target within it
+ */
+export interface Route {
+  notifier: NotifierType;
+  target: string;
+}
+
+/**
+ * Parses a target like "teams:webhook" or "C01234567" into a route
+ * Unprefixed targets use the configured default notifier
+ */
+export function parseRoute(value: string, defaultNotifier: NotifierType): Route {
+  const separator = value.indexOf(':');
+  if (separator > 0) {
+    const prefix = NotifierTypeSchema.safeParse(value.slice(0, separator));
+    if (prefix.success) {
+      return { notifier: prefix.data, target: value.slice(separator + 1) };
+    }
+  }
+  return { notifier: defaultNotifier, target: value };
+}
+
+/**
+ * Formats a route as a stable "notifier:target" key
+ */
+export function formatRoute(route: Route): string {
+  return `${route.notifier}:${route.target}`;
+}
+
+/**
+ * Gets the fallback target(s) for the current environment
+ */
+function getFallbackTargets(config: Config): string[] {
+  const environmentTargets = toTargetList(
+    config.channelMapping?.[config.environment]
+  );
+  if (environmentTargets.length > 0) {
+    return environmentTargets;
+  }
+
+  if (config.slackChannelOrUser) {
+    return [config.slackChannelOrUser];
+  }
+
+  if (config.teamsWebhookUrl) {
+    return ['teams:webhook'];
+  }
+
+  if (config.webhookUrl) {
+    return ['webhook:default'];
+  }
+
+  if (config.discordWebhookUrl) {
+    return ['discord:webhook'];
+  }
+
+  throw new ConfigurationError(
+    `No fallback target for environment ${config.environment}: set slack_channel_or_user, teams_webhook_url, webhook_url, discord_webhook_url or channelMapping`
+  );
+}
+
+/**
+ * Looks up the default notifier's user ID for a PM email,
+ * preferring explicit overrides
+ */
+async function getNotifierUserId(
+  email: string,
+  config: Config,
+  notifiers: Notifiers,
+  userIdCache: Map<string, string | null>
+): Promise<string | null> {
+  if (!userIdCache.has(email)) {
+    const override = config.jiraUsers?.[email];
+    if (override) {
+      logger.debug(`Using user override for ${email}: ${override}`);
+    }
+    const notifier = notifiers[config.notifier];
+    userIdCache.set(
+      email,
+      override ?? (notifier ? await notifier.getUserIdByEmail(email) : null)
+    );
+  }
+  return userIdCache.get(email) ?? null;
+}
+
+/**
+ * Resolves the users/channels to notify for a single issue
+ * Order: issue PM email → notifier user (or email), project/team mapping,
+ * fallback channel
+ */
+async function resolveTargets(
+  issue: Issue,
+  config: Config,
+  trackerService: IssueTrackerService,
+  notifiers: Notifiers,
+  userIdCache: Map<string, string | null>
+): Promise<string[]> {
+  const pmEmail = trackerService.getPmEmail(issue);
+
+  // With email_mode "always", the PM is emailed in addition to other targets
+  const emailTarget =
+    pmEmail && notifiers.email ? `email:${pmEmail}` : undefined;
+  const withEmail = (targets: string[]) =>
+    emailTarget && config.emailMode === 'always'
+      ? [...new Set([...targets, emailTarget])]
+      : targets;
+  const withChannel = (targets: string[]) =>
+    withEmail(
+      config.alwaysNotifyChannel
+        ? [...new Set([...targets, ...getFallbackTargets(config)])]
+        : targets
+    );
+
+  // Try the PM resolved for this specific issue
+  if (pmEmail) {
+    logger.debug(`Found PM email for ${issue.key}: ${pmEmail}`);
+    const userId = await getNotifierUserId(
+      pmEmail,
+      config,
+      notifiers,
+      userIdCache
+    );
+    if (userId) {
+      return withChannel([userId]);
+    }
+
+    // PMs outside the workspace (contractors, stakeholders) get email instead
+    if (emailTarget) {
+      logger.debug(`No ${config.notifier} user for ${pmEmail}, emailing instead`);
+      return withChannel([emailTarget]);
+    }
+  }
+
+  // Fall back to the mapping for the issue's project/team, then the configured one
+  if (config.pmMapping && Object.keys(config.pmMapping).length > 0) {
+    const issuePrefix = getIssuePrefix(issue.key);
+    const projectKey = getProjectKey(config);
+    const projectMapping = toTargetList(
+      config.pmMapping[issuePrefix] ??
+        (projectKey ? config.pmMapping[projectKey] : undefined)
+    );
+    if (projectMapping.length > 0) {
+      logger.debug(
+        `Using PM mapping for ${issue.key}: ${projectMapping.join(', ')}`
+      );
+      return withChannel(projectMapping);
+    }
+  }
+
+  // Fallback to the environment's channel(s) or the configured channel/user,
+  // resolved only here so email-only setups don't need a fallback
+  logger.debug(`Using fallback target(s) for ${issue.key}`);
+  return withEmail(getFallbackTargets(config));
+}
+
+/**
+ * Groups issues by the route (notifier and user/channel) that should be
+ * notified about them, keyed by "notifier:target"
+ */
+export async function groupIssuesByRoute(
+  issues: Issue[],
+  config: Config,
+  trackerService: IssueTrackerService,
+  notifiers: Notifiers
+): Promise<Map<string, Issue[]>> {
+  const groups = new Map<string, Issue[]>();
+  const userIdCache = new Map<string, string | null>();
+
+  for (const issue of issues) {
+    const targets = await resolveTargets(
+      issue,
+      config,
+      trackerService,
+      notifiers,
+      userIdCache
+    );
+    for (const target of targets) {
+      const key = formatRoute(parseRoute(target, config.notifier));
+      const group = groups.get(key) ?? [];
+      group.push(issue);
+      groups.set(key, group);
+    }
+  }
+
+  logger.info(`Resolved ${groups.size} notification recipient(s)`);
+  return groups;
+}
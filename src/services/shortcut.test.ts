@@ -0,0 +1,151 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ShortcutService } from './shortcut';
+
+// Responses by "METHOD /path"; anything else is a 404
+type Handler = () => [number, unknown];
+
+const story = (id: number, iterationId: number | null) => ({
+  id,
+  name: `Story ${id}`,
+  app_url: `https://app.shortcut.com/acme/story/${id}`,
+  workflow_state_id: 500,
+  iteration_id: iterationId,
+  owner_ids: ['dev'],
+  requested_by_id: 'pm',
+});
+
+describe('ShortcutService', () => {
+  let server: http.Server;
+  let handlers: Record<string, Handler>;
+
+  beforeEach(async () => {
+    handlers = {
+      'GET /workflows': () => [
+        200,
+        [
+          {
+            id: 1,
+            name: 'Dev',
+            states: [{ id: 500, name: 'Ready for QA', type: 'started' }],
+          },
+        ],
+      ],
+      'GET /members': () => [
+        200,
+        [
+          {
+            id: 'dev',
+            profile: { name: 'Dev', email_address: 'dev@example.com' },
+          },
+          {
+            id: 'pm',
+            profile: { name: 'PM', email_address: 'pm@example.com' },
+          },
+        ],
+      ],
+      'GET /iterations': () => [
+        200,
+        [
+          {
+            id: 7,
+            name: 'Iteration 7',
+            status: 'started',
+            start_date: '',
+            end_date: '',
+          },
+          {
+            id: 6,
+            name: 'Iteration 6',
+            status: 'done',
+            start_date: '',
+            end_date: '',
+          },
+        ],
+      ],
+      'GET /member': () => [
+        200,
+        { id: 'dev', workspace2: { url_slug: 'acme' } },
+      ],
+      'GET /stories/1': () => [200, story(1, 7)],
+      'GET /stories/2': () => [200, story(2, 6)],
+    };
+    server = http.createServer((request, response) => {
+      const handler = handlers[`${request.method} ${request.url}`];
+      const [status, data] = handler
+        ? handler()
+        : [404, { message: 'Not found' }];
+      response
+        .writeHead(status, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify(data));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // The API URL is fixed, so point the client at the stand-in
+  const createService = (pmSource?: 'requester' | 'owner') => {
+    const service = new ShortcutService('token', { pmSource });
+    service['client'].defaults.baseURL =
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return service;
+  };
+
+  it('resolves stories with their workflow state, iteration and requester', async () => {
+    const service = createService();
+    await service.initialize();
+    const issues = await service.getIssues(['sc-1', 'sc-2', 'sc-3']);
+
+    expect(issues.map((issue) => issue.key)).toEqual(['sc-1', 'sc-2']);
+    expect(issues[0]).toMatchObject({
+      status: 'Ready for QA',
+      sprint: { name: 'Iteration 7', state: 'active' },
+      assignee: { email: 'dev@example.com' },
+      pmEmail: 'pm@example.com',
+    });
+    expect(issues.map((issue) => service.isInActiveSprint(issue))).toEqual([
+      true,
+      false,
+    ]);
+    expect(service.getIssueUrl('sc-1')).toBe(
+      'https://app.shortcut.com/acme/story/1'
+    );
+    expect(service.getIssueUrl('sc-3')).toBe(
+      'https://app.shortcut.com/acme/story/3'
+    );
+  });
+
+  it('reads the PM from the first owner when configured', async () => {
+    const service = createService('owner');
+    await service.initialize();
+    const [issue] = await service.getIssues(['sc-1']);
+
+    expect(issue.pmEmail).toBe('dev@example.com');
+  });
+
+  it("counts no story as active when iterations can't load", async () => {
+    handlers['GET /iterations'] = () => [401, { message: 'Unauthorized' }];
+    const service = createService();
+    await service.initialize();
+    const [issue] = await service.getIssues(['sc-1']);
+
+    expect(issue.sprint).toBeNull();
+    expect(service.isInActiveSprint(issue)).toBe(false);
+  });
+
+  it('fails instead of skipping stories on API errors', async () => {
+    handlers['GET /stories/1'] = () => [500, { message: 'Server error' }];
+    const service = createService();
+    await service.initialize();
+
+    await expect(service.getIssues(['sc-1', 'sc-3'])).rejects.toMatchObject({
+      name: 'ShortcutApiError',
+      statusCode: 500,
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import {
+  ShortcutStory,
+  ShortcutWorkflow,
+  ShortcutIteration,
+  ShortcutMember,
+  ShortcutCurrentMember,
+  ShortcutApiError,
+  Issue,
+  IssueSprint,
+  IssueTrackerService,
+} from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ShortcutService');
+
+// Stories fetched concurrently
+const CONCURRENCY = 10;
+
+export interface ShortcutServiceOptions {
+  pmSource?: 'requester' | 'owner'; // story member treated as the PM
+  workspace?: string; // workspace URL slug, looked up when not set
+}
+
+export class ShortcutService implements IssueTrackerService {
+  private client: AxiosInstance;
+  private pmSource: 'requester' | 'owner';
+  private workspace?: string;
+  private storyUrls = new Map<string, string>();
+  private workflowStates = new Map<number, string>();
+  private iterations = new Map<number, IssueSprint>();
+  private members = new Map<string, ShortcutMember['profile']>();
+
+  constructor(apiToken: string, options: ShortcutServiceOptions = {}) {
+    this.pmSource = options.pmSource ?? 'requester';
+    this.workspace = options.workspace;
+
+    this.client = axios.create({
+      baseURL: 'https://api.app.shortcut.com/api/v3',
+      headers: {
+        'Content-Type': 'application/json',
+        'Shortcut-Token': apiToken,
+      },
+      timeout: 30000,
+    });
+
+    // Add response interceptor for error handling
+    this.client.interceptors.response.use(
+      (response) => response,
+      (error: AxiosError) => {
+        const statusCode = error.response?.status;
+        const message = `Shortcut API error: ${error.message}`;
+        logger.error(message, error);
+        throw new ShortcutApiError(message, statusCode, error.response?.data);
+      }
+    );
+  }
+
+  /**
+   * Loads workflow states, iterations and members used to resolve stories
+   * Iterations only feed the active-sprint check, so failing to load them
+   * (or the workspace slug) is logged rather than thrown
+   */
+  async initialize(): Promise<void> {
+    const [workflows, members] = await Promise.all([
+      this.client.get<ShortcutWorkflow[]>('/workflows'),
+      this.client.get<ShortcutMember[]>('/members'),
+    ]);
+
+    for (const workflow of workflows.data) {
+      for (const state of workflow.states) {
+        this.workflowStates.set(state.id, state.name);
+      }
+    }
+
+    for (const member of members.data) {
+      this.members.set(member.id, member.profile);
+    }
+
+    const states: Record<ShortcutIteration['status'], IssueSprint['state']> = {
+      unstarted: 'future',
+      started: 'active',
+      done: 'closed',
+    };
+    try {
+      const iterations =
+        await this.client.get<ShortcutIteration[]>('/iterations');
+      for (const iteration of iterations.data) {
+        this.iterations.set(iteration.id, {
+          id: iteration.id,
+          name: iteration.name,
+          state: states[iteration.status],
+        });
+      }
+    } catch (error) {
+      logger.warning(`Failed to load iterations: ${(error as Error).message}`);
+    }
+
+    if (!this.workspace) {
+      try {
+        const response =
+          await this.client.get<ShortcutCurrentMember>('/member');
+        this.workspace = response.data.workspace2.url_slug;
+      } catch (error) {
+        logger.warning(
+          `Failed to look up the Shortcut workspace, set shortcut_workspace: ${(error as Error).message}`
+        );
+      }
+    }
+
+    logger.debug(
+      `Loaded ${this.workflowStates.size} workflow states, ${this.iterations.size} iterations, ${this.members.size} members`
+    );
+  }
+
+  /**
+   * Gets stories by reference (sc-1234)
+   */
+  async getIssues(issueIds: string[]): Promise<Issue[]> {
+    if (issueIds.length === 0) {
+      return [];
+    }
+
+    logger.group(`Fetching ${issueIds.length} stories from Shortcut`);
+    try {
+      const issues: Issue[] = [];
+      for (let i = 0; i < issueIds.length; i += CONCURRENCY) {
+        const stories = await Promise.all(
+          issueIds.slice(i, i + CONCURRENCY).map((id) => this.getStory(id))
+        );
+        for (const story of stories) {
+          if (story) {
+            issues.push(this.convertToGenericIssue(story));
+          }
+        }
+      }
+
+      logger.info(`Found ${issues.length} stories`);
+      return issues;
+    } finally {
+      logger.endGroup();
+    }
+  }
+
+  /**
+   * Gets a single story by reference, or null when it doesn't exist
+   */
+  private async getStory(issueId: string): Promise<ShortcutStory | null> {
+    const storyId = issueId.replace(/^sc-/, '');
+
+    try {
+      const response = await this.client.get<ShortcutStory>(
+        `/stories/${storyId}`
+      );
+      logger.debug(`Retrieved story ${issueId}: ${response.data.name}`);
+      this.storyUrls.set(issueId, response.data.app_url);
+      return response.data;
+    } catch (error) {
+      if ((error as ShortcutApiError).statusCode === 404) {
+        logger.warning(`Story ${issueId} not found`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Converts a Shortcut story to generic Issue format
+   */
+  private convertToGenericIssue(story: ShortcutStory): Issue {
+    const owner = story.owner_ids.length
+      ? this.members.get(story.owner_ids[0])
+      : undefined;
+    const iteration =
+      story.iteration_id !== null
+        ? this.iterations.get(story.iteration_id)
+        : undefined;
+
+    return {
+      id: String(story.id),
+      key: `sc-${story.id}`,
+      summary: story.name,
+      status:
+        this.workflowStates.get(story.workflow_state_id) ??
+        String(story.workflow_state_id),
+      assignee: owner
+        ? {
+            name: owner.name,
+            email: owner.email_address ?? '',
+          }
+        : null,
+      sprint: iteration ?? null,
+      sprints: iteration ? [iteration] : [],
+      cycle: null, // Shortcut uses iterations, mapped to sprints
+      pmEmail: this.getShortcutPmEmail(story),
+      url: story.app_url,
+    };
+  }
+
+  /**
+   * Gets the PM email from the story's requester or first owner
+   */
+  private getShortcutPmEmail(story: ShortcutStory): string | null {
+    const memberId =
+      this.pmSource === 'owner' ? story.owner_ids[0] : story.requested_by_id;
+    const email = memberId
+      ? this.members.get(memberId)?.email_address
+      : undefined;
+
+    if (!email) {
+      logger.debug(`No PM email found for story sc-${story.id}`);
+      return null;
+    }
+    return email;
+  }
+
+  /**
+   * Checks if a story is in a started iteration
+   */
+  isInActiveSprint(issue: Issue): boolean {
+    if (!issue.sprint) {
+      logger.debug(`Story ${issue.key} has no iteration assigned`);
+      return false;
+    }
+
+    const isActive = issue.sprint.state === 'active';
+    logger.debug(
+      `Story ${issue.key} iteration: ${issue.sprint.name} (${issue.sprint.state})`
+    );
+    return isActive;
+  }
+
+  /**
+   * Filters stories by workflow state name
+   */
+  filterByStatus(issues: Issue[], allowedStatuses?: string[]): Issue[] {
+    if (!allowedStatuses || allowedStatuses.length === 0) {
+      return issues;
+    }
+
+    const filtered = issues.filter((issue) =>
+      allowedStatuses.includes(issue.status)
+    );
+
+    logger.info(
+      `Filtered ${issues.length} stories to ${filtered.length} by workflow state: ${allowedStatuses.join(', ')}`
+    );
+
+    return filtered;
+  }
+
+  /**
+   * Gets the PM email for a story
+   */
+  getPmEmail(issue: Issue): string | null {
+    return issue.pmEmail;
+  }
+
+  /**
+   * Constructs the URL for a story
+   * Prefers the URL Shortcut returned for the story; story links need the
+   * workspace slug otherwise
+   */
+  getIssueUrl(issueId: string): string {
+    const storyId = issueId.replace(/^sc-/, '');
+    const workspacePath = this.workspace
+      ? `${encodeURIComponent(this.workspace)}/`
+      : '';
+    return (
+      this.storyUrls.get(`sc-${storyId}`) ??
+      `https://app.shortcut.com/${workspacePath}story/${storyId}`
+    );
+  }
+}
@@ -1,10 +1,23 @@
 import { WebClient, ChatPostMessageResponse, Block, KnownBlock } from '@slack/web-api';
-import { NotificationData, SlackApiError } from '../types';
+import {
+  NotificationData,
+  DeploymentMetadata,
+  Notifier,
+  SlackApiError,
+} from '../types';
 import { createLogger } from '../utils/logger';
+import {
+  getNotificationSections,
+  getNotificationTitle,
+  getPullRequestText,
+  getTicketCountText,
+  getTicketDetailsText,
+  getTicketTitle,
+} from '../utils/sections';
 
 const logger = createLogger('SlackService');
 
-export class SlackService {
+export class SlackService implements Notifier {
   private client: WebClient;
 
   constructor(botToken: string) {
@@ -20,23 +33,36 @@ export class SlackService {
    */
   private createMessageBlocks(
     notifications: NotificationData[],
-    metadata: {
-      branch: string;
-      environment: string;
-      deployedBy: string;
-      commitSha: string;
-      repoUrl: string;
-    }
+    metadata: DeploymentMetadata,
+    title = getNotificationTitle(metadata)
   ): (Block | KnownBlock)[] {
     const blocks: (Block | KnownBlock)[] = [
       {
         type: 'header',
         text: {
           type: 'plain_text',
-          text: '🚀 New Deployment Ready for Testing',
+          text: title,
           emoji: true,
         },
       },
+    ];
+
+    // Badges for each environment the tickets have reached
+    if (metadata.environments && metadata.environments.length > 0) {
+      blocks.push({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: metadata.environments
+              .map((environment) => `✅ \`${environment}\``)
+              .join('  →  '),
+          },
+        ],
+      });
+    }
+
+    blocks.push(
       {
         type: 'section',
         fields: [
@@ -60,35 +86,22 @@ export class SlackService {
       },
       {
         type: 'divider',
-      },
-      {
-        type: 'section',
-        text: {
-          type: 'mrkdwn',
-          text: '*Tickets Ready for Testing:*',
-        },
-      },
-    ];
-
-    // Add each ticket as a section
-    for (const notification of notifications) {
-      const statusEmoji = this.getStatusEmoji(notification.status);
-
-      // Support both sprints (Jira) and cycles (Linear)
-      let iterationText = 'No sprint/cycle';
-      if (notification.sprint) {
-        iterationText = `Sprint: ${notification.sprint}`;
-      } else if (notification.cycle) {
-        iterationText = `Cycle: ${notification.cycle}`;
       }
+    );
 
+    // Add each group of tickets, with each ticket as a section
+    for (const section of getNotificationSections(notifications, metadata)) {
       blocks.push({
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*<${notification.url}|${notification.ticket}>* - ${notification.summary}\n${statusEmoji} ${notification.status} | ${iterationText}${notification.assignee ? ` | Assignee: ${notification.assignee}` : ''}`,
+          text: `*${section.title}:*`,
         },
       });
+
+      for (const notification of section.notifications) {
+        blocks.push(this.createTicketBlock(notification));
+      }
     }
 
     // Add context footer
@@ -101,7 +114,7 @@ export class SlackService {
         elements: [
           {
             type: 'mrkdwn',
-            text: `_${notifications.length} ticket${notifications.length !== 1 ? 's' : ''} deployed at <!date^${Math.floor(Date.now() / 1000)}^{date_short_pretty} at {time}|${new Date().toISOString()}>_`,
+            text: `_${getTicketCountText(notifications.length, metadata)} at <!date^${Math.floor(Date.now() / 1000)}^{date_short_pretty} at {time}|${new Date().toISOString()}>_`,
           },
         ],
       }
@@ -110,6 +123,51 @@ export class SlackService {
     return blocks;
   }
 
+  /**
+   * Gets the plain-text fallback shown in push notifications
+   */
+  private getFallbackText(
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): string {
+    const count = getTicketCountText(notifications.length, metadata);
+    return metadata.rollback
+      ? `⏪ ${count} from ${metadata.environment}`
+      : `🚀 ${count} to ${metadata.environment}`;
+  }
+
+  /**
+   * Creates the section for a single ticket
+   */
+  private createTicketBlock(notification: NotificationData): KnownBlock {
+    const statusEmoji = this.getStatusEmoji(notification.status);
+    const pullRequestText = getPullRequestText(
+      notification,
+      (pr) => `<${pr.url}|#${pr.number}>`
+    );
+
+    return {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: `${getTicketTitle(notification, `*<${notification.url}|${notification.ticket}>*`)}\n${statusEmoji} ${getTicketDetailsText(notification)}${pullRequestText}${this.getTransitionText(notification)}`,
+      },
+    };
+  }
+
+  /**
+   * Describes the status change made for a ticket, if any was attempted
+   */
+  private getTransitionText(notification: NotificationData): string {
+    const transition = notification.transition;
+    if (!transition || transition.outcome === 'skipped') {
+      return '';
+    }
+    return transition.outcome === 'transitioned'
+      ? `\n➡️ _Moved from ${transition.from} to ${transition.to}_`
+      : `\n⚠️ _Couldn't move to ${transition.to}: ${transition.reason}_`;
+  }
+
   /**
    * Gets an emoji for a Jira status
    */
@@ -141,13 +199,7 @@ export class SlackService {
   async sendNotification(
     channelOrUserId: string,
     notifications: NotificationData[],
-    metadata: {
-      branch: string;
-      environment: string;
-      deployedBy: string;
-      commitSha: string;
-      repoUrl: string;
-    }
+    metadata: DeploymentMetadata
   ): Promise<string | undefined> {
     try {
       logger.group('Sending Slack notification');
@@ -158,7 +210,7 @@ export class SlackService {
 
       const response: ChatPostMessageResponse = await this.client.chat.postMessage({
         channel: channelOrUserId,
-        text: `🚀 ${notifications.length} ticket${notifications.length !== 1 ? 's' : ''} deployed to ${metadata.environment}`, // Fallback text
+        text: this.getFallbackText(notifications, metadata),
         blocks,
         unfurl_links: false,
         unfurl_media: false,
@@ -192,6 +244,126 @@ export class SlackService {
     }
   }
 
+  /**
+   * Replaces a previously sent notification with updated content
+   */
+  async updateNotification(
+    channelOrUserId: string,
+    messageTs: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<void> {
+    try {
+      const blocks = this.createMessageBlocks(notifications, metadata);
+
+      const response = await this.client.chat.update({
+        channel: await this.resolveChannel(channelOrUserId),
+        ts: messageTs,
+        text: this.getFallbackText(notifications, metadata),
+        blocks,
+      });
+
+      if (!response.ok) {
+        throw new SlackApiError(
+          'Failed to update Slack message',
+          response.error,
+          response
+        );
+      }
+
+      logger.info(`Message updated successfully (ts: ${messageTs})`);
+    } catch (error) {
+      logger.error('Failed to update Slack notification', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replies in the thread of a previously sent notification
+   */
+  async replyInThread(
+    channelOrUserId: string,
+    messageTs: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined> {
+    try {
+      const blocks = this.createMessageBlocks(
+        notifications,
+        metadata,
+        metadata.rollback
+          ? getNotificationTitle(metadata)
+          : `🚀 Deployed to ${metadata.environment}`
+      );
+
+      const response = await this.client.chat.postMessage({
+        channel: await this.resolveChannel(channelOrUserId),
+        thread_ts: messageTs,
+        text: this.getFallbackText(notifications, metadata),
+        blocks,
+        unfurl_links: false,
+        unfurl_media: false,
+      });
+
+      if (!response.ok) {
+        throw new SlackApiError(
+          'Failed to send Slack thread reply',
+          response.error,
+          response
+        );
+      }
+
+      logger.info(`Thread reply sent successfully (ts: ${response.ts})`);
+      return response.ts;
+    } catch (error) {
+      logger.error('Failed to send Slack thread reply', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the permalink of a sent message
+   */
+  async getPermalink(
+    channelOrUserId: string,
+    messageTs: string
+  ): Promise<string | null> {
+    try {
+      const response = await this.client.chat.getPermalink({
+        channel: await this.resolveChannel(channelOrUserId),
+        message_ts: messageTs,
+      });
+      return response.permalink ?? null;
+    } catch (error) {
+      logger.warning(
+        `Failed to get permalink for message ${messageTs}: ${(error as Error).message}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Resolves a user ID to their DM channel, since updates and thread
+   * replies need the conversation the message was posted in
+   */
+  private async resolveChannel(channelOrUserId: string): Promise<string> {
+    if (!/^[UW]/.test(channelOrUserId)) {
+      return channelOrUserId;
+    }
+
+    const response = await this.client.conversations.open({
+      users: channelOrUserId,
+    });
+    if (!response.ok || !response.channel?.id) {
+      throw new SlackApiError(
+        `Failed to open DM with ${channelOrUserId}`,
+        response.error,
+        response
+      );
+    }
+    return response.channel.id;
+  }
+
   /**
    * Sends a simple text message (for errors or fallback)
    */
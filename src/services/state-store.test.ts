@@ -0,0 +1,190 @@
+import * as cache from '@actions/cache';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheStateStore, mergeStates } from './state-store';
+import { DeploymentLedger } from './ledger';
+import { DeploymentState, DeploymentThread } from '../types';
+
+const thread = (messageId: string, updatedAt: string): DeploymentThread => ({
+  route: 'slack:C123',
+  messageId,
+  tickets: ['PROJ-1'],
+  environments: ['staging'],
+  notifications: [],
+  metadata: {
+    branch: 'main',
+    environment: 'staging',
+    deployedBy: 'dev',
+    commitSha: 'aaa1111',
+    repoUrl: 'https://github.com/acme/app',
+  },
+  updatedAt,
+});
+
+const state = (overrides: Partial<DeploymentState>): DeploymentState => ({
+  version: 1,
+  threads: [],
+  deployments: [],
+  heads: [],
+  tombstones: [],
+  ...overrides,
+});
+
+describe('mergeStates', () => {
+  it('keeps the most recently updated copy of each thread', () => {
+    const merged = mergeStates(
+      state({
+        threads: [
+          thread('1.1', '2024-01-02T00:00:00.000Z'),
+          thread('2.2', '2024-01-01T00:00:00.000Z'),
+        ],
+      }),
+      state({
+        threads: [
+          thread('1.1', '2024-01-01T00:00:00.000Z'),
+          thread('2.2', '2024-01-03T00:00:00.000Z'),
+          thread('3.3', '2024-01-01T00:00:00.000Z'),
+        ],
+      })
+    );
+
+    expect(merged.threads.map((t) => [t.messageId, t.updatedAt])).toEqual([
+      ['1.1', '2024-01-02T00:00:00.000Z'],
+      ['2.2', '2024-01-03T00:00:00.000Z'],
+      ['3.3', '2024-01-01T00:00:00.000Z'],
+    ]);
+  });
+
+  it('unions deployment records without duplicates', () => {
+    const record = {
+      ticket: 'PROJ-1',
+      environment: 'staging',
+      commitSha: 'aaa1111',
+      notifiedAt: '2024-01-01T00:00:00.000Z',
+    };
+    const merged = mergeStates(
+      state({ deployments: [record] }),
+      state({
+        deployments: [
+          { ...record, notifiedAt: '2024-01-02T00:00:00.000Z' },
+          { ...record, environment: 'production' },
+        ],
+      })
+    );
+
+    expect(merged.deployments).toEqual([
+      record,
+      { ...record, environment: 'production' },
+    ]);
+  });
+
+  it("doesn't bring back records forgotten by a concurrent run", () => {
+    const record = {
+      ticket: 'PROJ-1',
+      environment: 'staging',
+      commitSha: 'aaa1111',
+      notifiedAt: '2024-01-01T00:00:00.000Z',
+    };
+    const tombstone = {
+      ticket: 'PROJ-1',
+      environment: 'staging',
+      forgottenAt: '2024-01-02T00:00:00.000Z',
+    };
+    const redeployed = {
+      ...record,
+      commitSha: 'bbb2222',
+      notifiedAt: '2024-01-03T00:00:00.000Z',
+    };
+
+    // Our run still holds the record the other run rolled back
+    expect(
+      mergeStates(
+        state({ tombstones: [tombstone] }),
+        state({ deployments: [record] })
+      )
+    ).toMatchObject({ deployments: [], tombstones: [tombstone] });
+    // The other run still holds the record we rolled back
+    expect(
+      mergeStates(
+        state({ deployments: [record] }),
+        state({ tombstones: [tombstone] })
+      ).deployments
+    ).toEqual([]);
+    // Announcements after the rollback survive
+    expect(
+      mergeStates(
+        state({ deployments: [record, redeployed] }),
+        state({ tombstones: [tombstone] })
+      ).deployments
+    ).toEqual([redeployed]);
+  });
+
+  it('keeps the latest scanned head per environment', () => {
+    const merged = mergeStates(
+      state({
+        heads: [
+          {
+            environment: 'staging',
+            commitSha: 'bbb2222',
+            scannedAt: '2024-01-02T00:00:00.000Z',
+          },
+          {
+            environment: 'production',
+            commitSha: 'ccc3333',
+            scannedAt: '2024-01-02T00:00:00.000Z',
+          },
+        ],
+      }),
+      state({
+        heads: [
+          {
+            environment: 'staging',
+            commitSha: 'aaa1111',
+            scannedAt: '2024-01-01T00:00:00.000Z',
+          },
+          {
+            environment: 'production',
+            commitSha: 'ddd4444',
+            scannedAt: '2024-01-03T00:00:00.000Z',
+          },
+        ],
+      })
+    );
+
+    expect(merged.heads.map((head) => head.commitSha)).toEqual([
+      'bbb2222',
+      'ddd4444',
+    ]);
+  });
+});
+
+describe('CacheStateStore', () => {
+  let dir: string;
+  let saveCache: jest.SpyInstance;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'pm-mediator-'));
+    jest.spyOn(cache, 'restoreCache').mockResolvedValue(undefined);
+    saveCache = jest.spyOn(cache, 'saveCache').mockResolvedValue(1);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('saves a new cache entry only when the state changed', async () => {
+    const store = new CacheStateStore(path.join(dir, 'state.json'));
+    const loaded = await store.load();
+    new DeploymentLedger(loaded, 'staging').recordHead('aaa1111');
+    await store.save(loaded);
+    expect(saveCache).toHaveBeenCalledTimes(1);
+
+    // A re-run scanning the same head changes nothing
+    const reloaded = await store.load();
+    new DeploymentLedger(reloaded, 'staging').recordHead('aaa1111');
+    await store.save(reloaded);
+    expect(saveCache).toHaveBeenCalledTimes(1);
+  });
+});
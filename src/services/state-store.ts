@@ -0,0 +1,381 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cache from '@actions/cache';
+import * as github from '@actions/github';
+import {
+  Config,
+  ConfigurationError,
+  DeploymentState,
+  DeploymentStateSchema,
+} from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('StateStore');
+
+const CACHE_KEY_PREFIX = 'pm-mediator-state-';
+const COMMIT_MESSAGE = 'Update pm-mediator deployment state [skip ci]';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/**
+ * Persists deployment state (ledger and message threads) between action runs
+ */
+export interface StateStore {
+  load(): Promise<DeploymentState>;
+  save(state: DeploymentState): Promise<void>;
+}
+
+/**
+ * Resolves a path relative to the workspace unless absolute
+ */
+function resolveWorkspacePath(filePath: string): string {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  return path.resolve(workspace, filePath);
+}
+
+/**
+ * Parses serialized state, starting fresh when it is invalid
+ */
+function parseState(contents: string, source: string): DeploymentState {
+  try {
+    const result = DeploymentStateSchema.safeParse(JSON.parse(contents));
+    if (result.success) {
+      logger.debug(
+        `Loaded ${result.data.deployments.length} deployment(s) and ${result.data.threads.length} thread(s) from ${source}`
+      );
+      return result.data;
+    }
+    logger.warning(`Ignoring invalid state in ${source}: ${result.error.message}`);
+  } catch (error) {
+    logger.warning(
+      `Failed to parse state in ${source}: ${(error as Error).message}`
+    );
+  }
+  return DeploymentStateSchema.parse({});
+}
+
+/**
+ * Serializes state for storage
+ */
+function serializeState(state: DeploymentState): string {
+  return `${JSON.stringify(state, null, 2)}\n`;
+}
+
+/**
+ * Merges state written concurrently by another run into ours
+ * Records announced before their ticket's latest tombstone stay forgotten
+ */
+export function mergeStates(
+  remote: DeploymentState,
+  local: DeploymentState
+): DeploymentState {
+  const threads = new Map(
+    remote.threads.map((thread) => [`${thread.route}|${thread.messageId}`, thread])
+  );
+  for (const thread of local.threads) {
+    const key = `${thread.route}|${thread.messageId}`;
+    const existing = threads.get(key);
+    if (!existing || thread.updatedAt > existing.updatedAt) {
+      threads.set(key, thread);
+    }
+  }
+
+  const deployments = new Map(
+    remote.deployments.map((record) => [
+      `${record.ticket}|${record.environment}|${record.commitSha}`,
+      record,
+    ])
+  );
+  for (const record of local.deployments) {
+    const key = `${record.ticket}|${record.environment}|${record.commitSha}`;
+    if (!deployments.has(key)) {
+      deployments.set(key, record);
+    }
+  }
+
+  const tombstones = new Map(
+    remote.tombstones.map((tombstone) => [
+      `${tombstone.ticket}|${tombstone.environment}`,
+      tombstone,
+    ])
+  );
+  for (const tombstone of local.tombstones) {
+    const key = `${tombstone.ticket}|${tombstone.environment}`;
+    const existing = tombstones.get(key);
+    if (!existing || tombstone.forgottenAt > existing.forgottenAt) {
+      tombstones.set(key, tombstone);
+    }
+  }
+
+  const heads = new Map(remote.heads.map((head) => [head.environment, head]));
+  for (const head of local.heads) {
+    const existing = heads.get(head.environment);
+    if (!existing || head.scannedAt > existing.scannedAt) {
+      heads.set(head.environment, head);
+    }
+  }
+
+  return {
+    version: 1,
+    threads: [...threads.values()],
+    deployments: [...deployments.values()].filter((record) => {
+      const tombstone = tombstones.get(`${record.ticket}|${record.environment}`);
+      return !tombstone || record.notifiedAt > tombstone.forgottenAt;
+    }),
+    heads: [...heads.values()],
+    tombstones: [...tombstones.values()],
+  };
+}
+
+/**
+ * Stores state as a local JSON file, mainly for testing
+ * In CI the file must be persisted between runs, e.g. with actions/cache
+ */
+export class FileStateStore implements StateStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = resolveWorkspacePath(filePath);
+  }
+
+  async load(): Promise<DeploymentState> {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info(`No state file at ${this.filePath}, starting fresh`);
+      return DeploymentStateSchema.parse({});
+    }
+    return parseState(
+      await fs.promises.readFile(this.filePath, 'utf8'),
+      this.filePath
+    );
+  }
+
+  async save(state: DeploymentState): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(this.filePath, serializeState(state), 'utf8');
+    logger.debug(`Saved state to ${this.filePath}`);
+  }
+}
+
+/**
+ * Stores state as a JSON file committed to a dedicated branch
+ * The branch is created (without history) on first save
+ */
+export class BranchStateStore implements StateStore {
+  private octokit: Octokit;
+  private sha?: string; // blob sha of the loaded file, for updates
+
+  constructor(
+    token: string,
+    private owner: string,
+    private repo: string,
+    private branch: string,
+    private filePath: string
+  ) {
+    this.octokit = github.getOctokit(token);
+  }
+
+  async load(): Promise<DeploymentState> {
+    const remote = await this.fetch();
+    if (!remote) {
+      logger.info(
+        `No state at ${this.filePath} on branch ${this.branch}, starting fresh`
+      );
+      return DeploymentStateSchema.parse({});
+    }
+    this.sha = remote.sha;
+    return remote.state;
+  }
+
+  async save(state: DeploymentState): Promise<void> {
+    if (!this.sha && !(await this.branchExists())) {
+      await this.createBranch(state);
+      return;
+    }
+
+    try {
+      await this.write(state);
+    } catch (error) {
+      if ((error as { status?: number }).status !== 409) {
+        throw error;
+      }
+
+      // Another run saved in the meantime, merge its state and retry once
+      logger.info(`State on branch ${this.branch} changed, merging`);
+      const remote = await this.fetch();
+      this.sha = remote?.sha;
+      await this.write(remote ? mergeStates(remote.state, state) : state);
+    }
+  }
+
+  /**
+   * Fetches the state file and its blob sha, or null when it doesn't exist
+   */
+  private async fetch(): Promise<{ state: DeploymentState; sha: string } | null> {
+    try {
+      const { data } = await this.octokit.rest.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path: this.filePath,
+        ref: this.branch,
+      });
+      if (Array.isArray(data) || data.type !== 'file') {
+        throw new ConfigurationError(
+          `${this.filePath} on branch ${this.branch} is not a file`
+        );
+      }
+      return {
+        state: parseState(
+          Buffer.from(data.content, 'base64').toString('utf8'),
+          `${this.branch}:${this.filePath}`
+        ),
+        sha: data.sha,
+      };
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates or updates the state file on the branch
+   */
+  private async write(state: DeploymentState): Promise<void> {
+    const { data } = await this.octokit.rest.repos.createOrUpdateFileContents({
+      owner: this.owner,
+      repo: this.repo,
+      path: this.filePath,
+      branch: this.branch,
+      message: COMMIT_MESSAGE,
+      content: Buffer.from(serializeState(state)).toString('base64'),
+      sha: this.sha,
+    });
+    this.sha = data.content?.sha;
+    logger.debug(`Saved state to ${this.branch}:${this.filePath}`);
+  }
+
+  private async branchExists(): Promise<boolean> {
+    try {
+      await this.octokit.rest.repos.getBranch({
+        owner: this.owner,
+        repo: this.repo,
+        branch: this.branch,
+      });
+      return true;
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the branch as an orphan commit holding only the state file
+   */
+  private async createBranch(state: DeploymentState): Promise<void> {
+    const { owner, repo } = this;
+    const { data: blob } = await this.octokit.rest.git.createBlob({
+      owner,
+      repo,
+      content: Buffer.from(serializeState(state)).toString('base64'),
+      encoding: 'base64',
+    });
+    const { data: tree } = await this.octokit.rest.git.createTree({
+      owner,
+      repo,
+      tree: [{ path: this.filePath, mode: '100644', type: 'blob', sha: blob.sha }],
+    });
+    const { data: commit } = await this.octokit.rest.git.createCommit({
+      owner,
+      repo,
+      message: COMMIT_MESSAGE,
+      tree: tree.sha,
+      parents: [],
+    });
+    await this.octokit.rest.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${this.branch}`,
+      sha: commit.sha,
+    });
+    this.sha = blob.sha;
+    logger.info(`Created state branch ${this.branch}`);
+  }
+}
+
+/**
+ * Stores state in the GitHub Actions cache
+ *
+ * Cache entries are immutable, so every run that changes the state saves a
+ * new entry and the latest one is restored by prefix. Entries are scoped to
+ * the branch (with the default branch as fallback) and evicted after 7 days
+ * without access, or sooner once the repository's 10 GB cache limit is hit.
+ * Busy repositories pile up an entry per deployment and concurrent runs
+ * can't merge, so they should use BranchStateStore.
+ */
+export class CacheStateStore implements StateStore {
+  private file: FileStateStore;
+  private filePath: string;
+  private loaded?: string; // serialized state as restored
+
+  constructor(filePath: string) {
+    this.file = new FileStateStore(filePath);
+    this.filePath = resolveWorkspacePath(filePath);
+  }
+
+  async load(): Promise<DeploymentState> {
+    try {
+      const key = await cache.restoreCache(
+        [this.filePath],
+        `${CACHE_KEY_PREFIX}${process.env.GITHUB_RUN_ID}`,
+        [CACHE_KEY_PREFIX]
+      );
+      logger.info(key ? `Restored state from cache ${key}` : 'No cached state found');
+    } catch (error) {
+      logger.warning(`Failed to restore cached state: ${(error as Error).message}`);
+    }
+    const state = await this.file.load();
+    this.loaded = serializeState(state);
+    return state;
+  }
+
+  async save(state: DeploymentState): Promise<void> {
+    if (serializeState(state) === this.loaded) {
+      logger.debug('State is unchanged, not saving a new cache entry');
+      return;
+    }
+    await this.file.save(state);
+    const key = `${CACHE_KEY_PREFIX}${process.env.GITHUB_RUN_ID}-${process.env.GITHUB_RUN_ATTEMPT ?? '1'}`;
+    await cache.saveCache([this.filePath], key);
+    logger.debug(`Saved state to cache ${key}`);
+  }
+}
+
+/**
+ * Creates the state store for the configured backend
+ */
+export function createStateStore(config: Config): StateStore {
+  switch (config.stateStore ?? 'file') {
+    case 'branch': {
+      if (!config.githubToken) {
+        throw new ConfigurationError(
+          'github_token is required when state_store is "branch"'
+        );
+      }
+      const { owner, repo } = github.context.repo;
+      return new BranchStateStore(
+        config.githubToken,
+        owner,
+        repo,
+        config.stateBranch,
+        config.stateFile
+      );
+    }
+    case 'cache':
+      return new CacheStateStore(config.stateFile);
+    default:
+      return new FileStateStore(config.stateFile);
+  }
+}
@@ -0,0 +1,130 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TeamsService } from './teams';
+import { DeploymentMetadata, NotificationData } from '../types';
+
+const notifications: NotificationData[] = [
+  {
+    ticket: 'PROJ-1',
+    summary: 'Add checkout button',
+    status: 'In Review',
+    sprint: 'Sprint 1',
+    cycle: null,
+    url: 'https://acme.atlassian.net/browse/PROJ-1',
+    assignee: 'Ada',
+    pullRequests: [{ number: 45, url: 'https://github.com/acme/app/pull/45' }],
+  },
+  {
+    ticket: 'PROJ-2',
+    summary: 'Prepare pricing page',
+    status: 'In Progress',
+    sprint: null,
+    cycle: null,
+    url: 'https://acme.atlassian.net/browse/PROJ-2',
+    assignee: null,
+    reference: 'mentions',
+  },
+];
+
+const metadata: DeploymentMetadata = {
+  branch: 'main',
+  environment: 'staging',
+  deployedBy: 'dev',
+  commitSha: 'abc1234def5678',
+  repoUrl: 'https://github.com/acme/app',
+};
+
+interface TeamsMessage {
+  type: string;
+  attachments: Array<{
+    contentType: string;
+    content: { body: Array<{ type: string; text?: string }> };
+  }>;
+}
+
+describe('TeamsService', () => {
+  let server: http.Server;
+  let webhookUrl: string;
+  let messages: TeamsMessage[];
+  let status: number;
+
+  beforeEach(async () => {
+    messages = [];
+    status = 200;
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        messages.push(JSON.parse(body));
+        response.writeHead(status).end('1');
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('posts an Adaptive Card to the incoming webhook', async () => {
+    const service = new TeamsService({ webhookUrl });
+    const messageId = await service.sendNotification(
+      'webhook',
+      notifications,
+      metadata
+    );
+
+    // Incoming webhooks don't return a message id
+    expect(messageId).toBeUndefined();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].type).toBe('message');
+
+    const [attachment] = messages[0].attachments;
+    expect(attachment.contentType).toBe(
+      'application/vnd.microsoft.card.adaptive'
+    );
+    const texts = attachment.content.body.map((block) => block.text);
+    expect(texts).toEqual(
+      expect.arrayContaining([
+        '🚀 New Deployment Ready for Testing',
+        'Tickets Ready for Testing:',
+        '**[PROJ-1](https://acme.atlassian.net/browse/PROJ-1)** - Add checkout button',
+        'In Review | Sprint: Sprint 1 | Assignee: Ada | PR [#45](https://github.com/acme/app/pull/45)',
+        'Partial Progress:',
+        'In Progress | No sprint/cycle',
+      ])
+    );
+  });
+
+  it('titles rollbacks with the environment', async () => {
+    const service = new TeamsService({ webhookUrl });
+    await service.sendNotification('webhook', notifications, {
+      ...metadata,
+      rollback: true,
+    });
+
+    const texts = messages[0].attachments[0].content.body.map(
+      (block) => block.text
+    );
+    expect(texts).toContain('⏪ Rolled Back from staging');
+    expect(texts).toContain('Tickets Rolled Back:');
+  });
+
+  it('fails with the status of a rejected webhook call', async () => {
+    status = 400;
+    const service = new TeamsService({ webhookUrl });
+    await expect(
+      service.sendNotification('webhook', notifications, metadata)
+    ).rejects.toMatchObject({ name: 'TeamsApiError', statusCode: 400 });
+  });
+
+  it('requires a configured webhook for the webhook target', async () => {
+    const service = new TeamsService({});
+    await expect(
+      service.sendNotification('webhook', notifications, metadata)
+    ).rejects.toThrow('teams_webhook_url is not configured');
+  });
+});
@@ -0,0 +1,333 @@
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import {
+  AdaptiveCard,
+  NotificationData,
+  DeploymentMetadata,
+  Notifier,
+  TeamsApiError,
+} from '../types';
+import { createLogger } from '../utils/logger';
+import {
+  getNotificationSections,
+  getNotificationTitle,
+  getPullRequestText,
+  getTicketCountText,
+  getTicketDetailsText,
+  getTicketTitle,
+} from '../utils/sections';
+
+const logger = createLogger('TeamsService');
+
+const ADAPTIVE_CARD_CONTENT_TYPE = 'application/vnd.microsoft.card.adaptive';
+
+export interface TeamsServiceOptions {
+  webhookUrl?: string; // incoming webhook, addressed as the "webhook" target
+  graphToken?: string; // Microsoft Graph token for channel/chat messages
+}
+
+/**
+ * Sends Adaptive Card notifications to Microsoft Teams
+ *
+ * Targets:
+ * - "webhook" or an https:// URL: incoming webhook
+ * - "teams/{teamId}/channels/{channelId}" or "chats/{chatId}": Graph resource
+ * - anything else: an Azure AD user id, messaged in a one-on-one chat via Graph
+ */
+export class TeamsService implements Notifier {
+  private webhookUrl?: string;
+  private graph?: AxiosInstance;
+  private chatIds = new Map<string, string>();
+  private ownUserId?: Promise<string>;
+
+  constructor(options: TeamsServiceOptions) {
+    this.webhookUrl = options.webhookUrl;
+
+    if (options.graphToken) {
+      this.graph = axios.create({
+        baseURL: 'https://graph.microsoft.com/v1.0',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${options.graphToken}`,
+        },
+        timeout: 30000,
+      });
+
+      // Add response interceptor for error handling
+      this.graph.interceptors.response.use(
+        (response) => response,
+        (error: AxiosError) => {
+          const statusCode = error.response?.status;
+          const message = `Microsoft Graph API error: ${error.message}`;
+          logger.error(message, error);
+          throw new TeamsApiError(message, statusCode, error.response?.data);
+        }
+      );
+    }
+  }
+
+  /**
+   * Creates an Adaptive Card for a deployment notification
+   */
+  private createCard(
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): AdaptiveCard {
+    const body: AdaptiveCard['body'] = [
+      {
+        type: 'TextBlock',
+        text: getNotificationTitle(metadata),
+        size: 'Large',
+        weight: 'Bolder',
+        wrap: true,
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Branch', value: metadata.branch },
+          { title: 'Environment', value: metadata.environment },
+          { title: 'Deployed by', value: metadata.deployedBy },
+          {
+            title: 'Commit',
+            value: `[${metadata.commitSha.substring(0, 7)}](${metadata.repoUrl}/commit/${metadata.commitSha})`,
+          },
+        ],
+      },
+    ];
+
+    for (const section of getNotificationSections(notifications, metadata)) {
+      body.push({
+        type: 'TextBlock',
+        text: `${section.title}:`,
+        weight: 'Bolder',
+        separator: true,
+        wrap: true,
+      });
+
+      for (const notification of section.notifications) {
+        const pullRequestText = getPullRequestText(
+          notification,
+          (pr) => `[#${pr.number}](${pr.url})`
+        );
+
+        body.push(
+          {
+            type: 'TextBlock',
+            text: getTicketTitle(
+              notification,
+              `**[${notification.ticket}](${notification.url})**`
+            ),
+            wrap: true,
+          },
+          {
+            type: 'TextBlock',
+            text: `${getTicketDetailsText(notification)}${pullRequestText}`,
+            isSubtle: true,
+            spacing: 'None',
+            wrap: true,
+          }
+        );
+      }
+    }
+
+    body.push({
+      type: 'TextBlock',
+      text: `${getTicketCountText(notifications.length, metadata)} at ${new Date().toISOString()}`,
+      isSubtle: true,
+      size: 'Small',
+      separator: true,
+      wrap: true,
+    });
+
+    return {
+      type: 'AdaptiveCard',
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      version: '1.4',
+      body,
+    };
+  }
+
+  /**
+   * Sends a notification to a Teams webhook, channel, chat or user
+   */
+  async sendNotification(
+    target: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined> {
+    try {
+      logger.group('Sending Teams notification');
+      logger.info(`Notifications: ${notifications.length}`);
+
+      const card = this.createCard(notifications, metadata);
+      const webhookUrl = this.getWebhookUrl(target);
+
+      if (webhookUrl) {
+        await axios.post(
+          webhookUrl,
+          {
+            type: 'message',
+            attachments: [
+              { contentType: ADAPTIVE_CARD_CONTENT_TYPE, content: card },
+            ],
+          },
+          { timeout: 30000 }
+        );
+        logger.info('Message sent to incoming webhook');
+        logger.endGroup();
+        // Incoming webhooks don't return a message id
+        return undefined;
+      }
+
+      const resource = await this.getMessagesResource(target);
+      const response = await this.getGraph().post<{ id: string }>(
+        resource,
+        this.createGraphMessage(card)
+      );
+
+      logger.info(`Message sent successfully (id: ${response.data.id})`);
+      logger.endGroup();
+
+      // Keep the resource with the id so the message can be updated later
+      return `${resource}/${response.data.id}`;
+    } catch (error) {
+      logger.error('Failed to send Teams notification', error as Error);
+      logger.endGroup();
+
+      if (axios.isAxiosError(error)) {
+        throw new TeamsApiError(
+          `Teams webhook error: ${error.message}`,
+          error.response?.status,
+          error.response?.data
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces a message previously sent through Graph
+   */
+  async updateNotification(
+    target: string,
+    messageId: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<void> {
+    if (this.getWebhookUrl(target)) {
+      logger.warning('Messages sent via incoming webhook cannot be updated');
+      return;
+    }
+
+    const card = this.createCard(notifications, metadata);
+    await this.getGraph().patch(messageId, this.createGraphMessage(card));
+    logger.info('Message updated successfully');
+  }
+
+  /**
+   * Looks up an Azure AD user id by email address
+   */
+  async getUserIdByEmail(email: string): Promise<string | null> {
+    if (!this.graph) {
+      logger.debug('No Graph token configured, cannot look up Teams users');
+      return null;
+    }
+
+    try {
+      const response = await this.graph.get<{ id: string }>(
+        `/users/${encodeURIComponent(email)}`,
+        { params: { $select: 'id' } }
+      );
+      logger.debug(`Found user ${response.data.id} for email ${email}`);
+      return response.data.id;
+    } catch (error) {
+      logger.warning(
+        `User not found for email: ${email} (${(error as Error).message})`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Wraps an Adaptive Card in a Graph chatMessage body
+   */
+  private createGraphMessage(card: AdaptiveCard) {
+    return {
+      body: {
+        contentType: 'html',
+        content: '<attachment id="deployment"></attachment>',
+      },
+      attachments: [
+        {
+          id: 'deployment',
+          contentType: ADAPTIVE_CARD_CONTENT_TYPE,
+          content: JSON.stringify(card),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Gets the webhook URL for a target, if it is a webhook target
+   */
+  private getWebhookUrl(target: string): string | undefined {
+    if (target === 'webhook') {
+      if (!this.webhookUrl) {
+        throw new TeamsApiError('teams_webhook_url is not configured');
+      }
+      return this.webhookUrl;
+    }
+    return target.startsWith('https://') ? target : undefined;
+  }
+
+  /**
+   * Gets the Graph messages collection for a channel, chat or user target
+   */
+  private async getMessagesResource(target: string): Promise<string> {
+    if (target.startsWith('teams/') || target.startsWith('chats/')) {
+      return `/${target}/messages`;
+    }
+
+    // Treat anything else as a user id and message them in a 1:1 chat
+    let chatId = this.chatIds.get(target);
+    if (!chatId) {
+      const ownUserId = await this.getOwnUserId();
+      const response = await this.getGraph().post<{ id: string }>('/chats', {
+        chatType: 'oneOnOne',
+        members: [ownUserId, target].map((user) => ({
+          '@odata.type': '#microsoft.graph.aadUserConversationMember',
+          roles: ['owner'],
+          'user@odata.bind': `https://graph.microsoft.com/v1.0/users('${user}')`,
+        })),
+      });
+      chatId = response.data.id;
+      this.chatIds.set(target, chatId);
+    }
+
+    return `/chats/${chatId}/messages`;
+  }
+
+  /**
+   * Gets the id of the user the Graph token belongs to (cached)
+   */
+  private getOwnUserId(): Promise<string> {
+    if (!this.ownUserId) {
+      this.ownUserId = this.getGraph()
+        .get<{ id: string }>('/me', { params: { $select: 'id' } })
+        .then((response) => response.data.id);
+    }
+    return this.ownUserId;
+  }
+
+  /**
+   * Gets the Graph client, failing when no token is configured
+   */
+  private getGraph(): AxiosInstance {
+    if (!this.graph) {
+      throw new TeamsApiError(
+        'teams_graph_token is required for Teams channel, chat and user targets'
+      );
+    }
+    return this.graph;
+  }
+}
@@ -0,0 +1,206 @@
+import { DeploymentThreads } from './threads';
+import {
+  DeploymentMetadata,
+  DeploymentState,
+  DeploymentStateSchema,
+  NotificationData,
+  Notifier,
+} from '../types';
+
+const CHAIN = ['dev', 'staging', 'production'];
+const ROUTE = 'slack:#releases';
+
+const notification = (ticket: string): NotificationData => ({
+  ticket,
+  summary: `Summary of ${ticket}`,
+  status: 'In Review',
+  sprint: null,
+  cycle: null,
+  url: `https://acme.atlassian.net/browse/${ticket}`,
+  assignee: null,
+});
+
+const metadata = (environment: string): DeploymentMetadata => ({
+  branch: 'main',
+  environment,
+  deployedBy: 'dev',
+  commitSha: `${environment}-sha`,
+  repoUrl: 'https://github.com/acme/app',
+});
+
+/**
+ * A threading notifier recording every call, numbering new messages
+ */
+const createNotifier = () => {
+  const calls: Array<{
+    method: string;
+    messageId?: string;
+    metadata: DeploymentMetadata;
+  }> = [];
+  let sent = 0;
+  const notifier: Notifier = {
+    sendNotification: async (_target, _notifications, metadata) => {
+      calls.push({ method: 'send', metadata });
+      return `message-${++sent}`;
+    },
+    updateNotification: async (
+      _target,
+      messageId,
+      _notifications,
+      metadata
+    ) => {
+      calls.push({ method: 'update', messageId, metadata });
+    },
+    replyInThread: async (_target, messageId, _notifications, metadata) => {
+      calls.push({ method: 'reply', messageId, metadata });
+      return `reply-${messageId}`;
+    },
+    getUserIdByEmail: async () => null,
+  };
+  return { notifier, calls };
+};
+
+describe('DeploymentThreads', () => {
+  let state: DeploymentState;
+
+  beforeEach(() => {
+    state = DeploymentStateSchema.parse({});
+  });
+
+  const deliver = (
+    environment: string,
+    notifier: Notifier,
+    tickets: string[]
+  ) =>
+    new DeploymentThreads(state, CHAIN, environment).deliver(
+      ROUTE,
+      '#releases',
+      notifier,
+      tickets.map(notification),
+      metadata(environment)
+    );
+
+  it('starts a thread in the first environment of the chain', async () => {
+    const { notifier, calls } = createNotifier();
+
+    await expect(deliver('dev', notifier, ['PROJ-1'])).resolves.toBe(
+      'message-1'
+    );
+
+    expect(calls).toEqual([
+      {
+        method: 'send',
+        metadata: { ...metadata('dev'), environments: ['dev'] },
+      },
+    ]);
+    expect(state.threads).toMatchObject([
+      {
+        route: ROUTE,
+        messageId: 'message-1',
+        tickets: ['PROJ-1'],
+        environments: ['dev'],
+      },
+    ]);
+  });
+
+  it('updates the root message and replies in later environments', async () => {
+    const { notifier, calls } = createNotifier();
+    await deliver('dev', notifier, ['PROJ-1']);
+
+    await expect(
+      deliver('staging', notifier, ['PROJ-1', 'PROJ-2'])
+    ).resolves.toBe('message-1');
+
+    expect(calls.slice(1)).toEqual([
+      {
+        method: 'update',
+        messageId: 'message-1',
+        metadata: { ...metadata('dev'), environments: ['dev', 'staging'] },
+      },
+      {
+        method: 'reply',
+        messageId: 'message-1',
+        metadata: { ...metadata('staging'), environments: ['dev', 'staging'] },
+      },
+    ]);
+    expect(state.threads).toHaveLength(1);
+    expect(state.threads[0].tickets).toEqual(['PROJ-1', 'PROJ-2']);
+  });
+
+  it('continues the most recently updated thread on the same route', async () => {
+    const { notifier, calls } = createNotifier();
+    await deliver('dev', notifier, ['PROJ-1']);
+    await deliver('dev', notifier, ['PROJ-1']);
+    state.threads[0].updatedAt = '2024-01-01T00:00:00.000Z';
+    state.threads.push({
+      ...state.threads[1],
+      route: 'slack:#other',
+      messageId: 'other',
+    });
+    state.threads[2].updatedAt = '2099-01-01T00:00:00.000Z';
+
+    await deliver('staging', notifier, ['PROJ-1']);
+
+    expect(calls.slice(2).map((call) => call.messageId)).toEqual([
+      'message-2',
+      'message-2',
+    ]);
+  });
+
+  it('posts a new message when no earlier thread announced the tickets', async () => {
+    const { notifier } = createNotifier();
+    await deliver('dev', notifier, ['PROJ-1']);
+
+    await expect(deliver('staging', notifier, ['PROJ-2'])).resolves.toBe(
+      'message-2'
+    );
+    expect(state.threads).toHaveLength(2);
+  });
+
+  it('replies with a rollback in the thread and drops the environment badge', async () => {
+    const { notifier, calls } = createNotifier();
+    await deliver('dev', notifier, ['PROJ-1']);
+    await deliver('staging', notifier, ['PROJ-1']);
+
+    const threads = new DeploymentThreads(state, CHAIN, 'staging');
+    await expect(
+      threads.rollBack(
+        ROUTE,
+        '#releases',
+        notifier,
+        [notification('PROJ-1')],
+        metadata('staging')
+      )
+    ).resolves.toBe('message-1');
+
+    expect(calls.slice(3)).toEqual([
+      {
+        method: 'update',
+        messageId: 'message-1',
+        metadata: { ...metadata('dev'), environments: ['dev'] },
+      },
+      {
+        method: 'reply',
+        messageId: 'message-1',
+        metadata: {
+          ...metadata('staging'),
+          environments: ['dev'],
+          rollback: true,
+        },
+      },
+    ]);
+    expect(state.threads[0].environments).toEqual(['dev']);
+  });
+
+  it('posts a new message when the thread can no longer be continued', async () => {
+    const { notifier } = createNotifier();
+    await deliver('dev', notifier, ['PROJ-1']);
+    notifier.updateNotification = async () => {
+      throw new Error('message_not_found');
+    };
+
+    await expect(deliver('staging', notifier, ['PROJ-1'])).resolves.toBe(
+      'message-2'
+    );
+  });
+});
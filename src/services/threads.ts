@@ -0,0 +1,190 @@
+import {
+  DeploymentMetadata,
+  DeploymentState,
+  DeploymentThread,
+  NotificationData,
+  Notifier,
+} from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Threads');
+
+// Oldest threads are dropped beyond this, keeping the state small
+const MAX_THREADS = 200;
+
+/**
+ * Keeps one evolving message per ticket batch as it is promoted along the
+ * environment chain (e.g. dev → staging → production)
+ *
+ * Deploying to the first environment starts a thread. Later environments
+ * update the root message with environment badges and reply in its thread.
+ */
+export class DeploymentThreads {
+  constructor(
+    private state: DeploymentState,
+    private chain: string[],
+    private environment: string
+  ) {
+    if (!chain.includes(environment)) {
+      logger.warning(
+        `Environment ${environment} is not in the environment chain (${chain.join(' → ')}), messages won't be threaded`
+      );
+    }
+  }
+
+  /**
+   * Sends a notification, continuing an earlier thread for the same tickets
+   * when the notifier supports it
+   * @returns The id of the thread's root message (or the new message)
+   */
+  async deliver(
+    route: string,
+    target: string,
+    notifier: Notifier,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined> {
+    const position = this.chain.indexOf(this.environment);
+    if (!notifier.replyInThread || position === -1) {
+      return notifier.sendNotification(target, notifications, metadata);
+    }
+
+    const tickets = notifications.map((n) => n.ticket);
+    const thread =
+      position > 0 ? this.findThread(route, tickets) : undefined;
+
+    if (thread) {
+      const environments = [
+        ...new Set([...thread.environments, this.environment]),
+      ];
+      try {
+        await notifier.updateNotification(
+          target,
+          thread.messageId,
+          thread.notifications,
+          { ...thread.metadata, environments }
+        );
+        await notifier.replyInThread(target, thread.messageId, notifications, {
+          ...metadata,
+          environments,
+        });
+
+        thread.environments = environments;
+        thread.tickets = [...new Set([...thread.tickets, ...tickets])];
+        thread.updatedAt = new Date().toISOString();
+        logger.info(`Continued thread ${thread.messageId} for ${route}`);
+        return thread.messageId;
+      } catch (error) {
+        // The root message may have been deleted, start over
+        logger.warning(
+          `Failed to continue thread ${thread.messageId} for ${route}, posting a new message: ${(error as Error).message}`
+        );
+      }
+    }
+
+    const messageId = await notifier.sendNotification(target, notifications, {
+      ...metadata,
+      environments: [this.environment],
+    });
+    if (messageId) {
+      this.state.threads.push({
+        route,
+        messageId,
+        tickets,
+        environments: [this.environment],
+        notifications,
+        metadata: {
+          branch: metadata.branch,
+          environment: metadata.environment,
+          deployedBy: metadata.deployedBy,
+          commitSha: metadata.commitSha,
+          repoUrl: metadata.repoUrl,
+        },
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    return messageId;
+  }
+
+  /**
+   * Sends a rollback notice, replying in the thread that announced the
+   * tickets when there is one and removing this environment's badge from
+   * its root message
+   * @returns The id of the thread's root message (or the new message)
+   */
+  async rollBack(
+    route: string,
+    target: string,
+    notifier: Notifier,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined> {
+    const tickets = notifications.map((n) => n.ticket);
+    const thread = notifier.replyInThread
+      ? this.findThread(route, tickets)
+      : undefined;
+
+    if (thread && notifier.replyInThread) {
+      const environments = thread.environments.filter(
+        (environment) => environment !== this.environment
+      );
+      try {
+        await notifier.updateNotification(
+          target,
+          thread.messageId,
+          thread.notifications,
+          { ...thread.metadata, environments }
+        );
+        await notifier.replyInThread(target, thread.messageId, notifications, {
+          ...metadata,
+          environments,
+          rollback: true,
+        });
+
+        thread.environments = environments;
+        thread.updatedAt = new Date().toISOString();
+        logger.info(`Posted rollback in thread ${thread.messageId} for ${route}`);
+        return thread.messageId;
+      } catch (error) {
+        logger.warning(
+          `Failed to post rollback in thread ${thread.messageId} for ${route}, posting a new message: ${(error as Error).message}`
+        );
+      }
+    }
+
+    return notifier.sendNotification(target, notifications, {
+      ...metadata,
+      rollback: true,
+    });
+  }
+
+  /**
+   * Drops the oldest threads beyond the limit
+   */
+  prune(): void {
+    this.state.threads = this.state.threads
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+      .slice(-MAX_THREADS);
+  }
+
+  /**
+   * Finds the most recently updated thread on a route announcing any of
+   * the tickets
+   */
+  private findThread(
+    route: string,
+    tickets: string[]
+  ): DeploymentThread | undefined {
+    let match: DeploymentThread | undefined;
+    for (const thread of this.state.threads) {
+      if (
+        thread.route === route &&
+        thread.tickets.some((ticket) => tickets.includes(ticket)) &&
+        (!match || thread.updatedAt > match.updatedAt)
+      ) {
+        match = thread;
+      }
+    }
+    return match;
+  }
+}
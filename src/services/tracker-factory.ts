@@ -1,6 +1,15 @@
 import { JiraService } from './jira';
 import { LinearService } from './linear';
-import { IssueTrackerService, Config, ConfigurationError } from '../types';
+import { MultiTrackerService } from './multi-tracker';
+import { GitHubIssuesService } from './github-issues';
+import { AzureBoardsService } from './azure-boards';
+import { ShortcutService } from './shortcut';
+import {
+  IssueTrackerService,
+  Config,
+  ConfigurationError,
+  TrackerType,
+} from '../types';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('TrackerFactory');
@@ -12,18 +21,11 @@ const logger = createLogger('TrackerFactory');
 export function createIssueTracker(config: Config): IssueTrackerService {
   logger.info(`Creating ${config.issueTracker} issue tracker service`);
 
-  switch (config.issueTracker) {
-    case 'jira':
-      return createJiraService(config);
-
-    case 'linear':
-      return createLinearService(config);
-
-    default:
-      throw new ConfigurationError(
-        `Unknown issue tracker: ${config.issueTracker}`
-      );
+  if (config.issueTracker === 'multi') {
+    return createMultiTrackerService(config);
   }
+
+  return createTrackerService(config.issueTracker, config);
 }
 
 /**
@@ -50,10 +52,22 @@ function createJiraService(config: Config): JiraService {
 
   logger.info(`Initializing Jira service: ${config.jiraBaseUrl}`);
 
+  if (config.jiraPmField) {
+    logger.info(`Jira PM field: ${config.jiraPmField}`);
+  }
+
   return new JiraService(
     config.jiraBaseUrl,
     config.jiraEmail,
-    config.jiraApiToken
+    config.jiraApiToken,
+    {
+      pmField: config.jiraPmField,
+      pmFallback: config.jiraPmFallback,
+      sprintField: config.jiraSprintField,
+      // Board lookups are only needed for active sprint filtering
+      boardId: config.onlyActiveSprint ? config.jiraBoardId : undefined,
+      projectKey: config.onlyActiveSprint ? config.jiraProjectKey : undefined,
+    }
   );
 }
 
@@ -76,6 +90,151 @@ function createLinearService(config: Config): LinearService {
   return new LinearService(config.linearApiKey, config.linearTeamKey);
 }
 
+/**
+ * Creates a service that routes issue IDs to several trackers by prefix
+ */
+function createMultiTrackerService(config: Config): MultiTrackerService {
+  const prefixMap = config.trackerPrefixMap ?? {};
+  const trackers = [...new Set(Object.values(prefixMap))];
+
+  if (trackers.length === 0) {
+    throw new ConfigurationError(
+      'tracker_prefix_map is required when issue_tracker is "multi"'
+    );
+  }
+
+  logger.info(
+    `Routing issue prefixes: ${Object.entries(prefixMap)
+      .map(([prefix, tracker]) => `${prefix} → ${tracker}`)
+      .join(', ')}`
+  );
+
+  const services: Partial<Record<TrackerType, IssueTrackerService>> = {};
+  for (const tracker of trackers) {
+    services[tracker] = createTrackerService(tracker, config);
+  }
+
+  return new MultiTrackerService(services, prefixMap);
+}
+
+/**
+ * Creates a single concrete tracker service
+ */
+function createTrackerService(
+  tracker: TrackerType,
+  config: Config
+): IssueTrackerService {
+  switch (tracker) {
+    case 'jira':
+      return createJiraService(config);
+
+    case 'linear':
+      return createLinearService(config);
+
+    case 'github':
+      return createGitHubIssuesService(config);
+
+    case 'azure':
+      return createAzureBoardsService(config);
+
+    case 'shortcut':
+      return createShortcutService(config);
+
+    default:
+      throw new ConfigurationError(`Unknown issue tracker: ${tracker}`);
+  }
+}
+
+/**
+ * Creates and validates a GitHub Issues service instance
+ */
+function createGitHubIssuesService(config: Config): GitHubIssuesService {
+  if (!config.githubToken) {
+    throw new ConfigurationError(
+      'github_token is required when issue_tracker is "github"'
+    );
+  }
+
+  logger.info('Initializing GitHub Issues service');
+
+  if (config.githubPmField) {
+    logger.info(`GitHub PM project field: ${config.githubPmField}`);
+  }
+
+  return new GitHubIssuesService(config.githubToken, {
+    pmField: config.githubPmField,
+  });
+}
+
+/**
+ * Creates and validates an Azure Boards service instance
+ */
+function createAzureBoardsService(config: Config): AzureBoardsService {
+  if (!config.azureOrgUrl) {
+    throw new ConfigurationError(
+      'azure_devops_org_url is required when issue_tracker is "azure"'
+    );
+  }
+
+  if (!config.azureProject) {
+    throw new ConfigurationError(
+      'azure_devops_project is required when issue_tracker is "azure"'
+    );
+  }
+
+  if (!config.azureToken) {
+    throw new ConfigurationError(
+      'azure_devops_token is required when issue_tracker is "azure"'
+    );
+  }
+
+  logger.info(
+    `Initializing Azure Boards service: ${config.azureOrgUrl}/${config.azureProject}`
+  );
+
+  return new AzureBoardsService(
+    config.azureOrgUrl,
+    config.azureProject,
+    config.azureToken,
+    {
+      team: config.azureTeam,
+      pmField: config.azurePmField,
+      // Iterations are only needed for active sprint filtering
+      loadIterations: config.onlyActiveSprint,
+    }
+  );
+}
+
+/**
+ * Creates and validates a Shortcut service instance
+ */
+function createShortcutService(config: Config): ShortcutService {
+  if (!config.shortcutApiToken) {
+    throw new ConfigurationError(
+      'shortcut_api_token is required when issue_tracker is "shortcut"'
+    );
+  }
+
+  logger.info(
+    `Initializing Shortcut service (PM: story ${config.shortcutPmSource})`
+  );
+
+  return new ShortcutService(config.shortcutApiToken, {
+    pmSource: config.shortcutPmSource,
+    workspace: config.shortcutWorkspace,
+  });
+}
+
+/**
+ * Gets the concrete trackers in use (several in multi mode)
+ */
+export function getTrackerTypes(config: Config): TrackerType[] {
+  if (config.issueTracker === 'multi') {
+    return [...new Set(Object.values(config.trackerPrefixMap ?? {}))];
+  }
+  return [config.issueTracker];
+}
+
 /**
  * Gets the project/team key based on the tracker type
  */
@@ -0,0 +1,117 @@
+import { createHmac } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService } from './webhook';
+import { DeploymentMetadata, NotificationData, WebhookPayload } from '../types';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const notifications: NotificationData[] = [
+  {
+    ticket: 'PROJ-1',
+    summary: 'Add checkout button',
+    status: 'In Review',
+    sprint: 'Sprint 1',
+    cycle: null,
+    url: 'https://acme.atlassian.net/browse/PROJ-1',
+    assignee: 'Ada',
+  },
+];
+
+const metadata: DeploymentMetadata = {
+  branch: 'main',
+  environment: 'staging',
+  deployedBy: 'dev',
+  commitSha: 'abc1234def5678',
+  repoUrl: 'https://github.com/acme/app',
+};
+
+describe('WebhookService', () => {
+  let server: http.Server;
+  let url: string;
+  let requests: ReceivedRequest[];
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        requests.push({ headers: request.headers, body });
+        response.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('posts the documented payload to the default URL', async () => {
+    const service = new WebhookService({ url });
+    const id = await service.sendNotification(
+      'default',
+      notifications,
+      metadata
+    );
+
+    expect(requests).toHaveLength(1);
+    const payload = JSON.parse(requests[0].body) as WebhookPayload;
+    expect(payload).toMatchObject({
+      version: 1,
+      event: 'deployment',
+      id,
+      repository: 'acme/app',
+      environment: 'staging',
+      commitSha: metadata.commitSha,
+      tickets: notifications,
+    });
+    expect(requests[0].headers['x-pm-mediator-signature']).toBeUndefined();
+  });
+
+  it('signs the raw body with the secret', async () => {
+    const service = new WebhookService({ secret: 's3cret' });
+    await service.sendNotification(url, notifications, metadata);
+
+    const expected = createHmac('sha256', 's3cret')
+      .update(requests[0].body)
+      .digest('hex');
+    expect(requests[0].headers['x-pm-mediator-signature']).toBe(
+      `sha256=${expected}`
+    );
+  });
+
+  it('sends rollbacks and updates as their own events', async () => {
+    const service = new WebhookService({ url });
+    const id = await service.sendNotification('default', notifications, {
+      ...metadata,
+      rollback: true,
+    });
+    await service.updateNotification(
+      'default',
+      id as string,
+      notifications,
+      metadata
+    );
+
+    const events = requests.map(
+      (request) => (JSON.parse(request.body) as WebhookPayload).event
+    );
+    expect(events).toEqual(['rollback', 'deployment.updated']);
+  });
+
+  it('rejects targets that are not URLs', async () => {
+    const service = new WebhookService({ url });
+    await expect(
+      service.sendNotification('not-a-url', notifications, metadata)
+    ).rejects.toThrow('Invalid webhook target: not-a-url');
+    expect(requests).toHaveLength(0);
+  });
+});
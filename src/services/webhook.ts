@@ -0,0 +1,157 @@
+import { createHmac, randomUUID } from 'crypto';
+import axios from 'axios';
+import {
+  NotificationData,
+  DeploymentMetadata,
+  Notifier,
+  WebhookPayload,
+  WebhookError,
+} from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('WebhookService');
+
+export const SIGNATURE_HEADER = 'X-PM-Mediator-Signature';
+
+export interface WebhookServiceOptions {
+  url?: string; // addressed as the "default" target
+  secret?: string; // HMAC-SHA256 signing secret
+}
+
+/**
+ * Posts deployment notifications as JSON to an HTTP endpoint
+ *
+ * Targets are "default" (the configured webhook_url) or any http(s) URL.
+ * When a secret is set, the raw body is signed and sent as
+ * `X-PM-Mediator-Signature: sha256=<hex>`.
+ */
+export class WebhookService implements Notifier {
+  private url?: string;
+  private secret?: string;
+
+  constructor(options: WebhookServiceOptions = {}) {
+    this.url = options.url;
+    this.secret = options.secret;
+  }
+
+  /**
+   * Sends a deployment notification
+   * @returns The payload id, repeated when the notification is updated
+   */
+  async sendNotification(
+    target: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined> {
+    const id = randomUUID();
+    await this.post(
+      target,
+      this.createPayload(
+        metadata.rollback ? 'rollback' : 'deployment',
+        id,
+        notifications,
+        metadata
+      )
+    );
+    logger.info(`Webhook delivered (id: ${id})`);
+    return id;
+  }
+
+  /**
+   * Sends an update for a previously delivered notification
+   */
+  async updateNotification(
+    target: string,
+    messageId: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<void> {
+    await this.post(
+      target,
+      this.createPayload('deployment.updated', messageId, notifications, metadata)
+    );
+    logger.info(`Webhook update delivered (id: ${messageId})`);
+  }
+
+  /**
+   * Webhooks have no user directory
+   */
+  async getUserIdByEmail(_email: string): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * Builds the documented webhook payload
+   */
+  private createPayload(
+    event: WebhookPayload['event'],
+    id: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): WebhookPayload {
+    return {
+      version: 1,
+      event,
+      id,
+      repository: metadata.repoUrl.replace('https://github.com/', ''),
+      repoUrl: metadata.repoUrl,
+      branch: metadata.branch,
+      environment: metadata.environment,
+      commitSha: metadata.commitSha,
+      deployedBy: metadata.deployedBy,
+      tickets: notifications,
+      sentAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Posts a payload, signing the exact bytes sent
+   */
+  private async post(target: string, payload: WebhookPayload): Promise<void> {
+    const url = this.resolveUrl(target);
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'eng-pm-mediator',
+    };
+
+    if (this.secret) {
+      const signature = createHmac('sha256', this.secret)
+        .update(body)
+        .digest('hex');
+      headers[SIGNATURE_HEADER] = `sha256=${signature}`;
+    }
+
+    try {
+      await axios.post(url, body, { headers, timeout: 30000 });
+    } catch (error) {
+      const statusCode = axios.isAxiosError(error)
+        ? error.response?.status
+        : undefined;
+      const message = `Webhook error: ${(error as Error).message}`;
+      logger.error(message, error as Error);
+      throw new WebhookError(
+        message,
+        statusCode,
+        axios.isAxiosError(error) ? error.response?.data : undefined
+      );
+    }
+  }
+
+  /**
+   * Resolves a target to the URL to post to
+   */
+  private resolveUrl(target: string): string {
+    if (target === 'default') {
+      if (!this.url) {
+        throw new WebhookError('webhook_url is not configured');
+      }
+      return this.url;
+    }
+
+    if (!/^https?:\/\//.test(target)) {
+      throw new WebhookError(`Invalid webhook target: ${target}`);
+    }
+    return target;
+  }
+}
@@ -1,38 +1,194 @@
 import { z } from 'zod';
 
 // Configuration schemas
+
+// Sources tried in order when resolving a Jira issue's PM
+export const JiraPmSourceSchema = z.enum([
+  'pm_field',
+  'component_lead',
+  'project_lead',
+  'reporter',
+]);
+
+// A single channel/user ID, or several to fan out to (e.g. channel plus DM)
+// Targets may be prefixed with a notifier, e.g. "teams:webhook" or "slack:C0123"
+export const SlackTargetsSchema = z.union([
+  z.string(),
+  z.array(z.string()).nonempty(),
+]);
+
+// Notification backends
+export const NotifierTypeSchema = z.enum([
+  'slack',
+  'teams',
+  'webhook',
+  'discord',
+  'email',
+]);
+
+// Concrete issue tracker backends
+export const TrackerTypeSchema = z.enum([
+  'jira',
+  'linear',
+  'github',
+  'azure',
+  'shortcut',
+]);
+
 export const ConfigSchema = z.object({
-  // Issue tracker selection
-  issueTracker: z.enum(['jira', 'linear']).default('jira'),
+  // Issue tracker selection ("multi" routes issue IDs by prefix)
+  issueTracker: z
+    .enum([...TrackerTypeSchema.options, 'multi'])
+    .default('jira'),
+  trackerPrefixMap: z.record(TrackerTypeSchema).optional(), // prefix → tracker
 
   // Jira configuration
   jiraBaseUrl: z.string().url().optional(),
   jiraEmail: z.string().email().optional(),
   jiraApiToken: z.string().optional(),
   jiraProjectKey: z.string().optional(),
+  jiraPmField: z.string().optional(), // field id or name, e.g. "Product Manager"
+  jiraSprintField: z.string().optional(), // discovered automatically when omitted
+  jiraBoardId: z.coerce.number().int().positive().optional(),
+  jiraCommentOnDeploy: z.boolean().default(false), // comment deployments on issues
+  jiraTransitionMap: z.record(z.string()).optional(), // environment → status, ordered by environmentChain
+  jiraPmFallback: z
+    .array(JiraPmSourceSchema)
+    .nonempty()
+    .default(['pm_field', 'reporter']),
 
   // Linear configuration
   linearApiKey: z.string().optional(),
   linearTeamKey: z.string().optional(),
+  linearStateMap: z.record(z.string()).optional(), // environment → state name or type, ordered by environmentChain
+  linearCommentOnDeploy: z.boolean().default(false),
+  linearDeployLabels: z.boolean().default(false), // deployed:<environment> labels
+
+  // GitHub Issues configuration
+  githubToken: z.string().optional(),
+  githubPmField: z.string().optional(), // Projects v2 field holding the PM
+
+  // Azure Boards configuration
+  azureOrgUrl: z.string().url().optional(), // e.g. https://dev.azure.com/org
+  azureProject: z.string().optional(),
+  azureToken: z.string().optional(),
+  azureTeam: z.string().optional(), // team whose current iteration is used
+  azurePmField: z.string().default('System.CreatedBy'),
+
+  // Shortcut configuration
+  shortcutApiToken: z.string().optional(),
+  shortcutPmSource: z.enum(['requester', 'owner']).default('requester'),
+  shortcutWorkspace: z.string().optional(),
+
+  // Notifier configuration
+  notifier: NotifierTypeSchema.default('slack'), // for unprefixed targets and PM lookups
+  slackBotToken: z.string().optional(),
+  slackChannelOrUser: z.string().optional(), // fallback target
+  teamsWebhookUrl: z.string().url().optional(),
+  teamsGraphToken: z.string().optional(),
+  webhookUrl: z.string().url().optional(), // generic JSON webhook
+  webhookSecret: z.string().optional(), // HMAC-SHA256 signing secret
+  discordWebhookUrl: z.string().url().optional(),
+  smtpHost: z.string().optional(),
+  smtpPort: z.coerce.number().int().positive().default(587),
+  smtpSecure: z.boolean().default(false), // implicit TLS, e.g. port 465
+  smtpUsername: z.string().optional(),
+  smtpPassword: z.string().optional(),
+  emailFrom: z.string().optional(),
+  emailMode: z.enum(['fallback', 'always']).default('fallback'), // when PMs are emailed
+
+  // Deployment state, persisted between runs
+  environmentChain: z.array(z.string()).optional(), // e.g. dev → staging → production
+  stateStore: z.enum(['file', 'branch', 'cache']).optional(), // enables deduplication
+  stateFile: z.string().default('.pm-mediator/state.json'),
+  stateBranch: z.string().default('pm-mediator-state'),
+  forceRenotify: z.boolean().default(false),
 
   // Common configuration
-  slackBotToken: z.string(),
-  slackChannelOrUser: z.string(),
   environment: z.string().default('staging'),
-  pmMapping: z.record(z.string()).optional(),
+  pmMapping: z.record(SlackTargetsSchema).optional(),
+  jiraUsers: z.record(z.string()).optional(), // PM email → Slack user ID overrides
+  channelMapping: z.record(SlackTargetsSchema).optional(), // environment → channel(s)
+  alwaysNotifyChannel: z.boolean().default(false),
   onlyActiveSprint: z.boolean().default(true),
   ticketStatusFilter: z.array(z.string()).optional(),
+  scanPullRequests: z.boolean().default(true), // ticket IDs in PR titles, bodies, branches
+  ignoreMentions: z.boolean().default(false), // skip tickets only referenced, never closed
+  ticketPatterns: z.array(z.string()).optional(), // "regex" or "/regex/flags"
+  ticketTrailers: z.array(z.string()).optional(),
+  ignorePrefixes: z.array(z.string()).optional(), // false positives like UTF-8
+  skipMarkers: z.array(z.string()).optional(), // e.g. [skip pm]
+  rollbackLabel: z.string().optional(), // label added to reverted tickets
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type SlackTargets = z.infer<typeof SlackTargetsSchema>;
+export type NotifierType = z.infer<typeof NotifierTypeSchema>;
+export type JiraPmSource = z.infer<typeof JiraPmSourceSchema>;
+export type TrackerType = z.infer<typeof TrackerTypeSchema>;
+
+// Routing config file (config_file input), versioned so the format can evolve
+export const ConfigFileSchema = ConfigSchema.pick({
+  pmMapping: true,
+  jiraUsers: true,
+  channelMapping: true,
+}).extend({
+  version: z.literal(1).default(1),
+  alwaysNotifyChannel: z.boolean().optional(),
+});
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
 
 // Abstract issue tracker interface
 export interface IssueTrackerService {
-  getIssues(issueIds: string[]): Promise<Issue[]>;
+  initialize?(): Promise<void>;
+  getIssues(issueIds: string[]): Promise<Issue[]>; // leaves out unknown IDs, throws on tracker errors
   isInActiveSprint(issue: Issue): boolean;
   filterByStatus(issues: Issue[], allowedStatuses?: string[]): Issue[];
   getPmEmail(issue: Issue): string | null;
   getIssueUrl(issueId: string): string;
+  addLabel?(issue: Issue, label: string): Promise<void>;
+  commentOnDeployment?(issue: Issue, deployment: DeploymentComment): Promise<void>;
+  transitionIssue?(
+    issue: Issue,
+    status: string,
+    laterStatuses?: string[]
+  ): Promise<TransitionResult>;
+  writeBackDeployment?(
+    issues: Issue[],
+    writeBack: DeploymentWriteBack
+  ): Promise<Map<string, TransitionResult>>;
+}
+
+// Post-deploy changes written back to issues in one batch
+export interface DeploymentWriteBack {
+  metadata: DeploymentMetadata; // rollbacks remove labels instead of adding them
+  commits: Map<string, string[]>; // ticket → its deployed commits
+  state?: string; // workflow state (name or type) to move issues to
+  laterStates?: string[]; // states mapped to later environments
+  comment: boolean;
+  labels: boolean;
+}
+
+// Outcome of moving an issue to the status mapped to an environment
+export interface TransitionResult {
+  outcome: 'transitioned' | 'skipped' | 'failed';
+  from: string;
+  to: string;
+  reason?: string; // why it was skipped or failed
+}
+
+// A deployment as written back to an issue
+export interface DeploymentComment {
+  metadata: DeploymentMetadata;
+  commits: string[]; // the issue's deployed commits
+  permalink?: string; // the chat notification
+}
+
+export interface IssueSprint {
+  id?: number;
+  name: string;
+  state: 'active' | 'future' | 'closed';
 }
 
 // Generic Issue type (abstracted from platform)
@@ -45,11 +201,10 @@ export interface Issue {
     name: string;
     email: string;
   } | null;
-  sprint: {
-    name: string;
-    state: 'active' | 'future' | 'closed';
-  } | null;
+  sprint: IssueSprint | null;
+  sprints: IssueSprint[]; // full sprint history, e.g. for carried-over tickets
   cycle: {
+    id?: string;
     name: string;
     state: 'started' | 'unstarted' | 'completed';
   } | null;
@@ -58,6 +213,12 @@ export interface Issue {
 }
 
 // Jira types
+export interface JiraUser {
+  accountId: string;
+  emailAddress: string;
+  displayName: string;
+}
+
 export interface JiraIssue {
   id: string;
   key: string;
@@ -66,29 +227,49 @@ export interface JiraIssue {
     status: {
       name: string;
       statusCategory: {
+        key?: string; // new, indeterminate or done
         name: string;
       };
     };
-    assignee: {
-      accountId: string;
-      emailAddress: string;
-      displayName: string;
-    } | null;
-    reporter: {
-      accountId: string;
-      emailAddress: string;
-      displayName: string;
-    } | null;
-    sprint?: JiraSprint | null;
-    customfield_pm?: {
-      accountId: string;
-      emailAddress: string;
-      displayName: string;
-    } | null;
+    assignee: JiraUser | null;
+    reporter: JiraUser | null;
+    components?: Array<{
+      id: string;
+      name: string;
+    }>;
+    project?: {
+      id: string;
+      key: string;
+    };
+    // Custom fields (e.g. the configured PM field) are keyed by field id
+    [fieldId: string]: unknown;
   };
   self: string;
 }
 
+export interface JiraField {
+  id: string;
+  name: string;
+  custom: boolean;
+  schema?: {
+    type: string;
+    items?: string;
+    custom?: string;
+  };
+}
+
+export interface JiraComponent {
+  id: string;
+  name: string;
+  lead?: JiraUser;
+}
+
+export interface JiraProject {
+  id: string;
+  key: string;
+  lead?: JiraUser;
+}
+
 export interface JiraSprint {
   id: number;
   name: string;
@@ -100,9 +281,21 @@ export interface JiraSprint {
 
 export interface JiraSearchResponse {
   issues: JiraIssue[];
-  total: number;
+  nextPageToken?: string;
+  isLast?: boolean;
+}
+
+export interface JiraBoard {
+  id: number;
+  name: string;
+  type: string;
+}
+
+export interface JiraBoardResponse {
+  values: JiraBoard[];
   maxResults: number;
   startAt: number;
+  isLast: boolean;
 }
 
 export interface JiraSprintResponse {
@@ -112,6 +305,47 @@ export interface JiraSprintResponse {
   isLast: boolean;
 }
 
+export interface JiraTransitionField {
+  name: string;
+  required: boolean;
+  hasDefaultValue?: boolean;
+  allowedValues?: Array<{ id: string; name?: string; value?: string }>;
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  to: {
+    id: string;
+    name: string;
+    statusCategory: { key: string };
+  };
+  fields?: Record<string, JiraTransitionField>;
+}
+
+// Atlassian Document Format, used for comment bodies
+export interface AdfNode {
+  type: string;
+  version?: number;
+  text?: string;
+  attrs?: Record<string, unknown>;
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>;
+  content?: AdfNode[];
+}
+
+export interface JiraComment {
+  id: string;
+  body: AdfNode;
+  properties?: Array<{ key: string; value: unknown }>;
+}
+
+export interface JiraCommentResponse {
+  comments: JiraComment[];
+  maxResults: number;
+  startAt: number;
+  total: number;
+}
+
 // Slack types
 export interface SlackMessageBlock {
   type: string;
@@ -134,6 +368,176 @@ export interface SlackMessageBlock {
   };
 }
 
+// Notifier abstraction shared by Slack, Teams and other backends
+export interface DeploymentMetadata {
+  branch: string;
+  environment: string;
+  deployedBy: string;
+  commitSha: string;
+  repoUrl: string;
+  environments?: string[]; // environments reached so far, shown as badges
+  rollback?: boolean; // the tickets were reverted from the environment
+}
+
+export interface Notifier {
+  /**
+   * Sends a notification and returns a message id usable for updates
+   */
+  sendNotification(
+    target: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined>;
+
+  /**
+   * Replaces a previously sent notification
+   */
+  updateNotification(
+    target: string,
+    messageId: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<void>;
+
+  /**
+   * Posts a follow-up in the thread of a previously sent notification
+   */
+  replyInThread?(
+    target: string,
+    messageId: string,
+    notifications: NotificationData[],
+    metadata: DeploymentMetadata
+  ): Promise<string | undefined>;
+
+  /**
+   * Gets a shareable link to a sent notification
+   */
+  getPermalink?(target: string, messageId: string): Promise<string | null>;
+
+  /**
+   * Looks up the notifier's user id for an email address
+   */
+  getUserIdByEmail(email: string): Promise<string | null>;
+}
+
+// Persisted deployment state (state_file), versioned so the format can evolve
+export const NotificationDataSchema = z.object({
+  ticket: z.string(),
+  summary: z.string(),
+  status: z.string(),
+  sprint: z.string().nullable(),
+  cycle: z.string().nullable(),
+  url: z.string(),
+  assignee: z.string().nullable(),
+  pullRequests: z
+    .array(z.object({ number: z.number(), url: z.string() }))
+    .optional(),
+  reference: z.enum(['closes', 'mentions']).optional(),
+  transition: z
+    .object({
+      outcome: z.enum(['transitioned', 'skipped', 'failed']),
+      from: z.string(),
+      to: z.string(),
+      reason: z.string().optional(),
+    })
+    .optional(),
+});
+
+export const DeploymentThreadSchema = z.object({
+  route: z.string(), // "notifier:target"
+  messageId: z.string(), // root message of the thread
+  tickets: z.array(z.string()), // every ticket announced in the thread
+  environments: z.array(z.string()),
+  notifications: z.array(NotificationDataSchema), // content of the root message
+  metadata: z.object({
+    branch: z.string(),
+    environment: z.string(),
+    deployedBy: z.string(),
+    commitSha: z.string(),
+    repoUrl: z.string(),
+  }),
+  updatedAt: z.string(),
+});
+
+export const DeploymentRecordSchema = z.object({
+  ticket: z.string(),
+  environment: z.string(),
+  commitSha: z.string(),
+  notifiedAt: z.string(),
+});
+
+// The last commit scanned for an environment, whether or not it was announced
+export const DeploymentHeadSchema = z.object({
+  environment: z.string(),
+  commitSha: z.string(),
+  baseSha: z.string().optional(), // the scanned range started after it
+  scannedAt: z.string(),
+});
+
+// A ticket rolled back from an environment, so merging state saved
+// concurrently doesn't bring back its earlier announcements
+export const DeploymentTombstoneSchema = z.object({
+  ticket: z.string(),
+  environment: z.string(),
+  forgottenAt: z.string(),
+});
+
+export const DeploymentStateSchema = z.object({
+  version: z.literal(1).default(1),
+  threads: z.array(DeploymentThreadSchema).default([]),
+  deployments: z.array(DeploymentRecordSchema).default([]), // the ledger
+  heads: z.array(DeploymentHeadSchema).default([]),
+  tombstones: z.array(DeploymentTombstoneSchema).default([]),
+});
+
+export type DeploymentThread = z.infer<typeof DeploymentThreadSchema>;
+export type DeploymentRecord = z.infer<typeof DeploymentRecordSchema>;
+export type DeploymentHead = z.infer<typeof DeploymentHeadSchema>;
+export type ScannedRange = Pick<DeploymentHead, 'commitSha' | 'baseSha'>;
+export type DeploymentTombstone = z.infer<typeof DeploymentTombstoneSchema>;
+export type DeploymentState = z.infer<typeof DeploymentStateSchema>;
+
+// Microsoft Teams types
+export interface AdaptiveCard {
+  type: 'AdaptiveCard';
+  $schema: string;
+  version: string;
+  body: Array<Record<string, unknown>>;
+  actions?: Array<Record<string, unknown>>;
+}
+
+// Generic webhook payload (documented in README, bump version on changes)
+export interface WebhookPayload {
+  version: 1;
+  event: 'deployment' | 'deployment.updated' | 'rollback';
+  id: string; // stable per notification, repeated on updates
+  repository: string;
+  repoUrl: string;
+  branch: string;
+  environment: string;
+  commitSha: string;
+  deployedBy: string;
+  tickets: NotificationData[];
+  sentAt: string;
+}
+
+// Discord types
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  fields?: Array<{
+    name: string;
+    value: string;
+    inline?: boolean;
+  }>;
+  footer?: {
+    text: string;
+  };
+  timestamp?: string;
+}
+
 export interface NotificationData {
   ticket: string;
   summary: string;
@@ -142,21 +546,61 @@ export interface NotificationData {
   cycle: string | null;  // Linear cycles
   url: string;
   assignee: string | null;
+  pullRequests?: Array<{ number: number; url: string }>; // PRs that shipped it
+  reference?: ReferenceType; // closes when omitted
+  transition?: TransitionResult; // status change made for this deployment
 }
 
 // Parser types
+// A pull request a commit was merged through
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  body: string;
+  branch: string; // head branch
+  url: string;
+}
+
+// A commit as delivered in push payloads, or mapped from the REST API
+export interface GitCommit {
+  id: string;
+  message: string;
+  author: { name: string; email: string };
+  pullRequests?: PullRequestInfo[];
+}
+
+// Where a ticket ID was found
+export type TicketSource = 'commit' | 'pr_title' | 'pr_body' | 'branch';
+
+// How a ticket was referenced: "Fixes PROJ-1" closes it, "Refs PROJ-1" mentions it
+export type ReferenceType = 'closes' | 'mentions';
+
 export interface ParsedCommit {
   sha: string;
   message: string;
   author: string;
   ticketIds: string[];
+  ticketSources: Record<string, TicketSource>; // first place each ID was found
+  ticketReferences: Record<string, ReferenceType>; // closes wins over mentions
+  pullRequests: PullRequestInfo[];
+  isRevert: boolean; // a git revert, its tickets are rolled back
+  revertedSha?: string; // from "This reverts commit <sha>"
 }
 
+// Net effect of the deployed commits on a ticket: a revert after the
+// ticket's last commit rolls it back, a revert of a commit in the same
+// range cancels it out
+export type TicketChange = 'deployed' | 'rolled_back' | 'none';
+
 // Action outputs
 export interface ActionOutputs {
   ticketsFound: number;
   ticketsNotified: number;
+  ticketsRolledBack: number;
+  transitions?: Record<string, TransitionResult>; // ticket → outcome
   slackMessageTs?: string;
+  slackMessages?: Record<string, string>; // Slack target → message ts
+  messages?: Record<string, string>; // notifier:target → message id
 }
 
 // Linear types
@@ -172,12 +616,7 @@ export interface LinearIssue {
     name: string;
     email: string;
   } | null;
-  cycle: {
-    name: string;
-    startsAt: string;
-    endsAt: string;
-    completedAt?: string;
-  } | null;
+  cycle: LinearCycle | null;
   team: {
     key: string;
     name: string;
@@ -185,6 +624,27 @@ export interface LinearIssue {
   url: string;
 }
 
+// An issue with what write-back needs to stay idempotent
+export interface LinearWriteBackIssue {
+  id: string;
+  identifier: string;
+  state: LinearWorkflowState;
+  team: {
+    id: string;
+    key: string;
+    states: { nodes: LinearWorkflowState[] };
+  };
+  labels: { nodes: Array<{ id: string; name: string }> };
+  comments: { nodes: Array<{ id: string; body: string }> };
+}
+
+export interface LinearWorkflowState {
+  id: string;
+  name: string;
+  type: string; // triage, backlog, unstarted, started, completed or canceled
+  position: number;
+}
+
 export interface LinearCycle {
   id: string;
   name: string;
@@ -198,14 +658,145 @@ export interface LinearGraphQLResponse<T> {
   errors?: Array<{
     message: string;
     path?: string[];
+    extensions?: {
+      code?: string;
+    };
   }>;
 }
 
+// GitHub Issues types
+export interface GitHubUser {
+  login: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface GitHubProjectFieldValue {
+  __typename?: string;
+  field?: {
+    name: string;
+  };
+  // ProjectV2ItemFieldIterationValue
+  title?: string;
+  startDate?: string;
+  duration?: number;
+  iterationId?: string;
+  // ProjectV2ItemFieldSingleSelectValue
+  name?: string;
+  // ProjectV2ItemFieldTextValue
+  text?: string;
+}
+
+export interface GitHubIssue {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  state: 'OPEN' | 'CLOSED';
+  assignees: {
+    nodes: GitHubUser[];
+  };
+  projectItems: {
+    nodes: Array<{
+      project: {
+        title: string;
+      };
+      fieldValues: {
+        nodes: GitHubProjectFieldValue[];
+      };
+    }>;
+  };
+}
+
+// Azure Boards types
+export interface AzureIdentity {
+  displayName: string;
+  uniqueName: string; // usually the user's email
+}
+
+export interface AzureWorkItem {
+  id: number;
+  fields: {
+    'System.Title': string;
+    'System.State': string;
+    'System.IterationPath'?: string;
+    'System.AssignedTo'?: AzureIdentity;
+    // Other fields (e.g. the configured PM field) by reference name
+    [referenceName: string]: unknown;
+  };
+  url: string;
+}
+
+export interface AzureWorkItemsResponse {
+  count: number;
+  value: AzureWorkItem[];
+}
+
+export interface AzureIteration {
+  id: string;
+  name: string;
+  path: string;
+  attributes: {
+    startDate?: string;
+    finishDate?: string;
+    timeFrame: 'past' | 'current' | 'future';
+  };
+}
+
+export interface AzureIterationsResponse {
+  count: number;
+  value: AzureIteration[];
+}
+
+// Shortcut types
+export interface ShortcutStory {
+  id: number;
+  name: string;
+  app_url: string;
+  workflow_state_id: number;
+  iteration_id: number | null;
+  owner_ids: string[];
+  requested_by_id: string;
+}
+
+export interface ShortcutWorkflow {
+  id: number;
+  name: string;
+  states: Array<{
+    id: number;
+    name: string;
+    type: 'unstarted' | 'started' | 'done';
+  }>;
+}
+
+export interface ShortcutIteration {
+  id: number;
+  name: string;
+  status: 'unstarted' | 'started' | 'done';
+  start_date: string;
+  end_date: string;
+}
+
+export interface ShortcutMember {
+  id: string;
+  profile: {
+    name: string;
+    email_address: string | null;
+  };
+}
+
+export interface ShortcutCurrentMember {
+  id: string;
+  workspace2: {
+    url_slug: string;
+  };
+}
+
 // Error types
 export class IssueTrackerError extends Error {
   constructor(
     message: string,
-    public platform: 'jira' | 'linear',
+    public platform: TrackerType,
     public statusCode?: number,
     public response?: unknown
   ) {
@@ -236,6 +827,39 @@ export class LinearApiError extends IssueTrackerError {
   }
 }
 
+export class GitHubApiError extends IssueTrackerError {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown
+  ) {
+    super(message, 'github', statusCode, response);
+    this.name = 'GitHubApiError';
+  }
+}
+
+export class AzureApiError extends IssueTrackerError {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown
+  ) {
+    super(message, 'azure', statusCode, response);
+    this.name = 'AzureApiError';
+  }
+}
+
+export class ShortcutApiError extends IssueTrackerError {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown
+  ) {
+    super(message, 'shortcut', statusCode, response);
+    this.name = 'ShortcutApiError';
+  }
+}
+
 export class SlackApiError extends Error {
   constructor(
     message: string,
@@ -247,6 +871,39 @@ export class SlackApiError extends Error {
   }
 }
 
+export class TeamsApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown
+  ) {
+    super(message);
+    this.name = 'TeamsApiError';
+  }
+}
+
+export class EmailError extends Error {
+  constructor(
+    message: string,
+    public code?: string,
+    public response?: unknown
+  ) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
+
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
 export class ConfigurationError extends Error {
   constructor(message: string) {
     super(message);
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ConfigFile, ConfigFileSchema, ConfigurationError } from '../types';
+import { createLogger } from './logger';
+
+const logger = createLogger('ConfigFile');
+
+/**
+ * Loads and validates a routing config file (JSON or YAML)
+ * @param filePath Path to the file, relative to the workspace unless absolute
+ * @returns The validated routing configuration
+ */
+export function loadConfigFile(filePath: string): ConfigFile {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+  const resolvedPath = path.resolve(workspace, filePath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new ConfigurationError(`Config file not found: ${filePath}`);
+  }
+
+  const contents = fs.readFileSync(resolvedPath, 'utf8');
+  const extension = path.extname(resolvedPath).toLowerCase();
+
+  let raw: unknown;
+  try {
+    raw =
+      extension === '.yml' || extension === '.yaml'
+        ? parseYaml(contents)
+        : JSON.parse(contents);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Failed to parse config file ${filePath}: ${(error as Error).message}`
+    );
+  }
+
+  const result = ConfigFileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new ConfigurationError(`Invalid config file ${filePath}: ${issues}`);
+  }
+
+  logger.info(`Loaded config file ${filePath} (version ${result.data.version})`);
+  return result.data;
+}
+
+/**
+ * Normalizes a single target or list of targets into an array
+ */
+export function toTargetList(targets: string | string[] | undefined): string[] {
+  if (!targets) {
+    return [];
+  }
+  return Array.isArray(targets) ? targets : [targets];
+}
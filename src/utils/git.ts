@@ -0,0 +1,103 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { GitCommit } from '../types';
+import { createLogger } from './logger';
+
+const logger = createLogger('Git');
+
+const execFileAsync = promisify(execFile);
+
+// Unit and record separators keep multi-line messages intact
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+const LOG_FORMAT = `--format=%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`;
+
+/**
+ * Runs git in the workspace and returns its output
+ */
+async function git(args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: process.env.GITHUB_WORKSPACE || process.cwd(),
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/**
+ * Parses git log output in LOG_FORMAT
+ */
+function parseLog(output: string): GitCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map((record) => record.trim())
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [id, name, email, message] = record.split(FIELD_SEPARATOR);
+      return { id, message: message.trim(), author: { name, email } };
+    });
+}
+
+/**
+ * Reads the commits in base..head from the local checkout, oldest first
+ * @returns The commits, or null when the checkout can't provide them
+ * (no repository, or a shallow clone without the full history)
+ */
+export async function getLocalCommits(
+  base: string,
+  head: string
+): Promise<GitCommit[] | null> {
+  try {
+    const shallow = (await git(['rev-parse', '--is-shallow-repository'])).trim();
+    if (shallow === 'true') {
+      logger.warning(
+        'The checkout is shallow, use actions/checkout with fetch-depth: 0 to read commits locally'
+      );
+      return null;
+    }
+
+    return parseLog(
+      await git(['log', '--reverse', LOG_FORMAT, `${base}..${head}`])
+    );
+  } catch (error) {
+    logger.warning(`Failed to read local git history: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Reads a single commit from the local checkout
+ * @returns The commit, or null when the checkout doesn't have it
+ */
+export async function getLocalCommit(sha: string): Promise<GitCommit | null> {
+  try {
+    return parseLog(await git(['log', '-1', LOG_FORMAT, sha, '--']))[0] ?? null;
+  } catch (error) {
+    logger.warning(
+      `Failed to read commit ${sha.substring(0, 7)} locally: ${(error as Error).message}`
+    );
+    return null;
+  }
+}
+
+/**
+ * Checks in the local checkout whether base is an ancestor of head
+ * @returns null when the checkout can't tell (no repository, or a commit
+ * missing from a shallow clone)
+ */
+export async function isLocalAncestor(
+  base: string,
+  head: string
+): Promise<boolean | null> {
+  try {
+    await git(['merge-base', '--is-ancestor', base, head]);
+    return true;
+  } catch (error) {
+    // Exit code 1 means "not an ancestor", anything else is a failure
+    if ((error as { code?: unknown }).code === 1) {
+      return false;
+    }
+    logger.warning(`Failed to read local git history: ${(error as Error).message}`);
+    return null;
+  }
+}
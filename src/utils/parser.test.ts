@@ -0,0 +1,358 @@
+import {
+  classifyTicketIds,
+  extractTicketIds,
+  findSkipMarker,
+  getReferenceTypes,
+  getTicketChanges,
+  parseCommits,
+  parseRevert,
+} from './parser';
+import { GitCommit } from '../types';
+
+const commit = (id: string, message: string): GitCommit => ({
+  id,
+  message,
+  author: { name: 'Dev', email: 'dev@example.com' },
+});
+
+describe('extractTicketIds', () => {
+  it('finds Jira/Linear keys in brackets, parentheses and plain text', () => {
+    expect(extractTicketIds('[PROJ-1] Fix login (ENG-22), see PROJ-1')).toEqual(
+      ['PROJ-1', 'ENG-22']
+    );
+  });
+
+  it('ignores look-alikes such as UTF-8 and SHA-256', () => {
+    expect(extractTicketIds('Use UTF-8 and SHA-256 for PROJ-3')).toEqual([
+      'PROJ-3',
+    ]);
+    expect(
+      extractTicketIds('Bump SHA-1 and ISO-8601', {
+        ignorePrefixes: ['ISO'],
+        knownKeys: ['ISO'],
+      })
+    ).toEqual(['SHA-1', 'ISO-8601']);
+  });
+
+  it('recognizes configured keys in lowercase and trailer values', () => {
+    expect(
+      extractTicketIds('proj-4 tidy up\n\nRefs: eng-5', { knownKeys: ['PROJ'] })
+    ).toEqual(['PROJ-4', 'ENG-5']);
+    expect(
+      extractTicketIds('tidy up\n\nStory: ops-8', { trailers: ['Story'] })
+    ).toEqual(['OPS-8']);
+  });
+
+  it('reads issue URLs', () => {
+    expect(
+      extractTicketIds(
+        'See https://acme.atlassian.net/browse/PROJ-6 and https://linear.app/acme/issue/ENG-7/title'
+      )
+    ).toEqual(['PROJ-6', 'ENG-7']);
+  });
+
+  it('adds the matches of custom patterns', () => {
+    expect(
+      extractTicketIds('Fix login (ticket 42)', {
+        patterns: [/ticket (\d+)/g],
+      })
+    ).toEqual(['42']);
+  });
+
+  it('reads Azure Boards references', () => {
+    expect(
+      extractTicketIds('AB#12 Fix login, see ab#13 and AB#14', {
+        trackers: ['azure'],
+      })
+    ).toEqual(['AB#12', 'AB#14']);
+  });
+
+  describe('Shortcut references', () => {
+    it('normalizes sc-, ch- and [ch] references', () => {
+      expect(
+        extractTicketIds('sc-12 and [ch34], ch-56', { trackers: ['shortcut'] })
+      ).toEqual(['sc-12', 'sc-34', 'sc-56']);
+    });
+
+    it('leaves uppercase SC- keys to Jira and Linear', () => {
+      expect(
+        extractTicketIds('SC-12 Fix login, see sc-34', {
+          trackers: ['jira', 'shortcut'],
+        })
+      ).toEqual(['SC-12', 'sc-34']);
+    });
+
+    it('leaves sc- to a configured SC key', () => {
+      expect(
+        extractTicketIds('sc-12 Fix login, see [ch34]', {
+          trackers: ['jira', 'shortcut'],
+          knownKeys: ['SC'],
+        })
+      ).toEqual(['SC-12', 'sc-34']);
+    });
+  });
+
+  describe('GitHub references', () => {
+    const options = { trackers: ['github' as const], defaultRepo: 'acme/app' };
+
+    it('qualifies bare references with the default repository', () => {
+      expect(extractTicketIds('Fixes #12 and other/repo#3', options)).toEqual([
+        'other/repo#3',
+        'acme/app#12',
+      ]);
+    });
+
+    it('skips the pull request of merge and squash subjects', () => {
+      expect(
+        extractTicketIds(
+          'Merge pull request #45 from acme/feature\n\nFixes #12',
+          options
+        )
+      ).toEqual(['acme/app#12']);
+      expect(
+        extractTicketIds('Add checkout (#46)\n\n* Fixes #13', options)
+      ).toEqual(['acme/app#13']);
+    });
+
+    it('skips known pull request numbers', () => {
+      expect(
+        extractTicketIds('Follow-up to #47, fixes #14', {
+          ...options,
+          pullRequestNumbers: [47],
+        })
+      ).toEqual(['acme/app#14']);
+    });
+  });
+});
+
+describe('classifyTicketIds', () => {
+  it('classifies references by the keyword before them', () => {
+    expect(classifyTicketIds('Fixes PROJ-1, PROJ-2; refs PROJ-3')).toEqual({
+      'PROJ-1': 'closes',
+      'PROJ-2': 'closes',
+      'PROJ-3': 'mentions',
+    });
+  });
+
+  it('treats references without a keyword as closing', () => {
+    expect(classifyTicketIds('PROJ-4 Add button')).toEqual({
+      'PROJ-4': 'closes',
+    });
+  });
+
+  it('lets closing win when a ticket is also mentioned', () => {
+    expect(classifyTicketIds('Part of PROJ-5. Closes PROJ-5')).toEqual({
+      'PROJ-5': 'closes',
+    });
+  });
+});
+
+describe('getReferenceTypes', () => {
+  it('counts a ticket closed by any commit as closed', () => {
+    const parsed = parseCommits([
+      commit('a1', 'Refs PROJ-1, PROJ-2 groundwork'),
+      commit('b2', 'Closes PROJ-1'),
+    ]);
+
+    expect(getReferenceTypes(parsed)).toEqual(
+      new Map([
+        ['PROJ-1', 'closes'],
+        ['PROJ-2', 'mentions'],
+      ])
+    );
+  });
+});
+
+describe('findSkipMarker', () => {
+  it('finds the default and configured markers', () => {
+    expect(findSkipMarker('PROJ-1 Tidy up [skip pm]')).toBe('[skip pm]');
+    expect(
+      findSkipMarker('PROJ-1 Tidy up #quiet', { skipMarkers: ['#quiet'] })
+    ).toBe('#quiet');
+    expect(findSkipMarker('PROJ-1 Tidy up')).toBeUndefined();
+  });
+
+  it('keeps marked commits out of the parsed tickets', () => {
+    const parsed = parseCommits([
+      commit('a1', 'PROJ-1 Add button'),
+      commit('b2', 'PROJ-2 Tidy up [skip pm]'),
+    ]);
+
+    expect(parsed.map((c) => c.ticketIds)).toEqual([['PROJ-1']]);
+  });
+});
+
+describe('parseRevert', () => {
+  it('detects a git revert and the reverted commit', () => {
+    expect(
+      parseRevert('Revert "PROJ-1 Add button"\n\nThis reverts commit 3f9c2a1.')
+    ).toEqual({ isRevert: true, revertedSha: '3f9c2a1' });
+  });
+
+  it('treats a revert of a revert as a reapply', () => {
+    expect(
+      parseRevert(
+        'Revert "Revert "PROJ-1 Add button""\n\nThis reverts commit 8d41e0b.'
+      )
+    ).toEqual({ isRevert: false, revertedSha: undefined });
+    expect(
+      parseRevert('Reapply "PROJ-1 Add button"\n\nThis reverts commit 8d41e0b.')
+    ).toEqual({ isRevert: false, revertedSha: undefined });
+  });
+
+  it('detects a revert from the body alone', () => {
+    expect(
+      parseRevert('Back out PROJ-1\n\nThis reverts commit 3f9c2a1.')
+    ).toEqual({ isRevert: true, revertedSha: '3f9c2a1' });
+  });
+
+  it('ignores ordinary commits', () => {
+    expect(parseRevert('PROJ-1 Add button')).toEqual({
+      isRevert: false,
+      revertedSha: undefined,
+    });
+  });
+});
+
+describe('getTicketChanges', () => {
+  // Full SHAs, referenced abbreviated the way git revert does
+  const SHA_1 = '3f9c2a1e7b5d4c8a9f0e1d2c3b4a5f6e7d8c9b0a';
+  const SHA_2 = '8d41e0b6c2a9f7e5d3b1a0c8e6f4d2b0a9c7e5f3';
+  const SHA_3 = 'c05b7e2d9a1f3c6e8b0d2f4a6c8e0b2d4f6a8c0e';
+  const EARLIER_SHA = '5e2a9c7f1b3d5e7a9c1e3f5b7d9a1c3e5f7b9d1a';
+
+  const revert = (sha: string, subject: string, revertedSha?: string) =>
+    commit(
+      sha,
+      revertedSha
+        ? `${subject}\n\nThis reverts commit ${revertedSha.substring(0, 12)}.`
+        : subject
+    );
+
+  it('rolls back tickets reverted after being deployed earlier', () => {
+    const parsed = parseCommits([
+      commit(SHA_1, 'PROJ-1 Add button'),
+      revert(SHA_2, 'Revert "PROJ-2 Add banner"', EARLIER_SHA),
+    ]);
+
+    expect(getTicketChanges(parsed)).toEqual(
+      new Map([
+        ['PROJ-1', 'deployed'],
+        ['PROJ-2', 'rolled_back'],
+      ])
+    );
+  });
+
+  it('cancels out a commit reverted within the same range', () => {
+    const parsed = parseCommits([
+      commit(SHA_1, 'PROJ-1 Add button'),
+      revert(SHA_2, 'Revert "PROJ-1 Add button"', SHA_1),
+    ]);
+
+    expect(getTicketChanges(parsed).get('PROJ-1')).toBe('none');
+  });
+
+  it('cancels only the reverted commit of a ticket', () => {
+    const parsed = parseCommits([
+      commit(SHA_1, 'PROJ-1 Add button'),
+      commit(SHA_2, 'PROJ-1 Style button'),
+      revert(SHA_3, 'Revert "PROJ-1 Style button"', SHA_2),
+    ]);
+
+    expect(getTicketChanges(parsed).get('PROJ-1')).toBe('deployed');
+  });
+
+  it('keeps a ticket deployed when an earlier commit of it is reverted after new work', () => {
+    const parsed = parseCommits([
+      commit(SHA_1, 'PROJ-1 Add button'),
+      revert(SHA_2, 'Revert "PROJ-1 First attempt"', EARLIER_SHA),
+    ]);
+
+    expect(getTicketChanges(parsed).get('PROJ-1')).toBe('deployed');
+  });
+
+  it('rolls back an earlier deployment even when its fix is reverted too', () => {
+    const parsed = parseCommits([
+      revert(SHA_1, 'Revert "PROJ-1 Add button"', EARLIER_SHA),
+      commit(SHA_2, 'PROJ-1 Add button again'),
+      revert(SHA_3, 'Revert "PROJ-1 Add button again"', SHA_2),
+    ]);
+
+    expect(getTicketChanges(parsed).get('PROJ-1')).toBe('rolled_back');
+  });
+
+  it('undoes the whole ticket when a revert names no commit', () => {
+    const parsed = parseCommits([
+      commit(SHA_1, 'PROJ-1 Add button'),
+      commit(SHA_2, 'PROJ-1 Style button'),
+      revert(SHA_3, 'Revert "PROJ-1 Add button"'),
+    ]);
+
+    expect(getTicketChanges(parsed).get('PROJ-1')).toBe('none');
+  });
+
+  it('deploys a ticket again when the revert is reverted', () => {
+    const parsed = parseCommits([
+      revert(SHA_1, 'Revert "PROJ-1 Add button"', EARLIER_SHA),
+      revert(SHA_2, 'Reapply "PROJ-1 Add button"', SHA_1),
+    ]);
+
+    expect(getTicketChanges(parsed).get('PROJ-1')).toBe('deployed');
+  });
+
+  describe('reverts naming only a SHA', () => {
+    it('reverts the tickets of a commit in the range', () => {
+      const parsed = parseCommits([
+        commit(SHA_1, 'PROJ-1 Add button'),
+        commit(SHA_2, 'PROJ-2 Add banner'),
+        revert(SHA_3, 'Back out the button', SHA_1),
+      ]);
+
+      expect(parsed.map((c) => c.ticketIds)).toEqual([
+        ['PROJ-1'],
+        ['PROJ-2'],
+        ['PROJ-1'],
+      ]);
+      expect(getTicketChanges(parsed)).toEqual(
+        new Map([
+          ['PROJ-1', 'none'],
+          ['PROJ-2', 'deployed'],
+        ])
+      );
+    });
+
+    it('rolls back the tickets of an earlier commit', () => {
+      const parsed = parseCommits(
+        [revert(SHA_1, 'Revert "Add banner"', EARLIER_SHA)],
+        undefined,
+        {
+          revertedCommits: [
+            {
+              ...commit(EARLIER_SHA, 'Add banner'),
+              pullRequests: [
+                {
+                  number: 12,
+                  title: 'Add banner',
+                  body: '',
+                  branch: 'feature/PROJ-2-banner',
+                  url: 'https://github.com/acme/app/pull/12',
+                },
+              ],
+            },
+          ],
+        }
+      );
+
+      expect(parsed).toMatchObject([
+        { sha: SHA_1, ticketIds: ['PROJ-2'], isRevert: true },
+      ]);
+      expect(getTicketChanges(parsed).get('PROJ-2')).toBe('rolled_back');
+    });
+
+    it('skips reverts of unknown commits', () => {
+      expect(
+        parseCommits([revert(SHA_1, 'Revert "Add banner"', EARLIER_SHA)])
+      ).toEqual([]);
+    });
+  });
+});
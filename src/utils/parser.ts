@@ -1,5 +1,13 @@
 import * as core from '@actions/core';
-import { ParsedCommit } from '../types';
+import {
+  GitCommit,
+  ParsedCommit,
+  PullRequestInfo,
+  ReferenceType,
+  TicketChange,
+  TicketSource,
+  TrackerType,
+} from '../types';
 
 /**
  * Regular expression patterns for matching issue IDs
@@ -9,19 +17,349 @@ import { ParsedCommit } from '../types';
  */
 const ISSUE_ID_PATTERN = /\b([A-Z]{2,10}-\d+)\b/g;
 
+/**
+ * GitHub issue references: owner/repo#123, or #123 in the current repository
+ */
+const GITHUB_FULL_REF_PATTERN = /\b([\w.-]+\/[\w.-]+)#(\d+)\b/g;
+const GITHUB_SHORT_REF_PATTERN = /(?<![\w/#])#(\d+)\b/g;
+const GITHUB_ISSUE_ID_PATTERN = /^[\w.-]+\/[\w.-]+#\d+$/;
+
+/**
+ * Subjects GitHub writes for merge commits ("Merge pull request #45 from …")
+ * and squash merges ("Title (#45)"), whose #45 is the pull request itself
+ */
+const MERGE_SUBJECT_PATTERN = /^Merge pull request #\d+ from \S+/;
+const SQUASH_SUBJECT_SUFFIX_PATTERN = /\s\(#\d+\)\s*$/;
+
+/**
+ * Azure Boards work item references: AB#1234
+ */
+const AZURE_REF_PATTERN = /\bAB#(\d+)\b/g;
+const AZURE_ISSUE_ID_PATTERN = /^AB#\d+$/;
+
+/**
+ * Shortcut (formerly Clubhouse) story references: sc-1234, [ch1234], ch-1234
+ * Normalized to sc-1234. Lowercase only, as SC-1234 is a Jira/Linear key
+ */
+const SHORTCUT_REF_PATTERN = /\bsc-(\d+)\b|\[ch-?(\d+)\]|\bch-(\d+)\b/g;
+const SHORTCUT_ISSUE_ID_PATTERN = /^sc-\d+$/;
+
+/**
+ * Jira and Linear issue URLs: .../browse/PROJ-123, linear.app/acme/issue/TEAM-123
+ */
+const ISSUE_URL_PATTERN =
+  /\/browse\/([A-Za-z][A-Za-z0-9]{1,9}-\d+)\b|linear\.app\/[\w-]+\/issue\/([A-Za-z][A-Za-z0-9]{1,9}-\d+)\b/g;
+
+/**
+ * A KEY-123 token in any case, as written in trailers
+ */
+const LOOSE_ISSUE_ID_PATTERN = /^[A-Za-z]{2,10}-\d+$/;
+
+/**
+ * Keywords classifying the references after them, up to the end of the
+ * clause: "Fixes PROJ-1, PROJ-2" closes both, "Refs: PROJ-3" only mentions it
+ * References without a keyword count as closing
+ */
+const REFERENCE_KEYWORD_PATTERN =
+  /\b(?:(close[sd]?|fix(?:e[sd])?|resolve[sd]?)|(refs?|references?|relates? to|related to|part of|see also|see|towards))(?=[:\s])/gi;
+const CLAUSE_END_PATTERN = /[\n;]|\.\s/;
+
+/**
+ * Commits written by git revert (or GitHub's revert button):
+ * Revert "PROJ-123 Add checkout button", with "This reverts commit <sha>."
+ * in the body. Reverting a revert produces Revert "Revert "..."" or, in
+ * newer git versions, Reapply "..."
+ */
+const REVERT_SUBJECT_PREFIX = 'Revert "';
+const REAPPLY_SUBJECT_PREFIX = 'Reapply "';
+const REVERTS_COMMIT_PATTERN = /\bThis reverts commit ([0-9a-f]{7,40})\b/i;
+
+/**
+ * Things that look like issue IDs but aren't (UTF-8, SHA-256, ISO-8601, ...)
+ */
+export const DEFAULT_IGNORE_PREFIXES = ['UTF', 'SHA', 'ISO', 'RFC', 'CVE', 'TLS', 'AES'];
+
+/**
+ * Git trailers whose values are issue references, e.g. "Refs: PROJ-123"
+ */
+export const DEFAULT_TRAILERS = ['Refs', 'Ticket', 'Issue'];
+
+/**
+ * Commits containing any of these are ignored
+ */
+export const DEFAULT_SKIP_MARKERS = ['[skip pm]', '[pm skip]', '[no pm]'];
+
+/**
+ * Options controlling which issue ID formats are extracted
+ */
+export interface ParseOptions {
+  trackers?: TrackerType[]; // formats to recognize, defaults to Jira/Linear keys
+  defaultRepo?: string; // owner/repo used to qualify bare #123 references
+  pullRequestNumbers?: number[]; // known pull requests, never bare #123 issues
+  patterns?: RegExp[]; // extra patterns, the first capture group (or match) is the ID
+  knownKeys?: string[]; // project/team keys also recognized in lowercase
+  ignorePrefixes?: string[]; // defaults to DEFAULT_IGNORE_PREFIXES
+  trailers?: string[]; // defaults to DEFAULT_TRAILERS
+  skipMarkers?: string[]; // defaults to DEFAULT_SKIP_MARKERS
+  revertedCommits?: GitCommit[]; // commits before the range that reverts in it name
+}
+
+/**
+ * Parses a user-supplied pattern, either "regex" or "/regex/flags"
+ * @throws SyntaxError when the pattern is invalid
+ */
+export function parsePattern(pattern: string): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  const [source, flags] = literal ? [literal[1], literal[2]] : [pattern, ''];
+  return new RegExp(source, flags.includes('g') ? flags : `${flags}g`);
+}
+
+/**
+ * Normalizes a KEY-123 reference in any case to uppercase
+ */
+function normalizeKey(id: string): string {
+  return LOOSE_ISSUE_ID_PATTERN.test(id) ? id.toUpperCase() : id;
+}
+
+/**
+ * Escapes text for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Extracts issue keys from Jira and Linear URLs
+ */
+function extractIssueUrls(message: string): string[] {
+  return [...message.matchAll(ISSUE_URL_PATTERN)].map((match) =>
+    (match[1] ?? match[2]).toUpperCase()
+  );
+}
+
+/**
+ * Extracts known project/team keys written in any case (proj-123)
+ */
+function extractKnownKeys(message: string, knownKeys: string[]): string[] {
+  if (knownKeys.length === 0) {
+    return [];
+  }
+  const pattern = new RegExp(
+    `\\b(?:${knownKeys.map(escapeRegExp).join('|')})-\\d+\\b`,
+    'gi'
+  );
+  return (message.match(pattern) ?? []).map((id) => id.toUpperCase());
+}
+
+/**
+ * Gets the values of the given git trailers ("Refs: PROJ-1, PROJ-2")
+ */
+function getTrailerValues(message: string, trailers: string[]): string[] {
+  if (trailers.length === 0) {
+    return [];
+  }
+  const pattern = new RegExp(
+    `^(?:${trailers.map(escapeRegExp).join('|')}):[ \\t]*(.+)$`,
+    'gim'
+  );
+  return [...message.matchAll(pattern)].map((match) => match[1]);
+}
+
+/**
+ * Checks whether an ID is a known false positive like UTF-8
+ */
+function isIgnored(id: string, options: ParseOptions): boolean {
+  if (!isValidTicketId(id)) {
+    return false;
+  }
+  const prefix = getIssuePrefix(id);
+  const ignorePrefixes = (options.ignorePrefixes ?? DEFAULT_IGNORE_PREFIXES).map(
+    (ignored) => ignored.toUpperCase()
+  );
+  return ignorePrefixes.includes(prefix) && !options.knownKeys?.includes(prefix);
+}
+
+/**
+ * Finds the skip marker in a text, if any
+ */
+export function findSkipMarker(
+  text: string,
+  options: ParseOptions = {}
+): string | undefined {
+  const lowerText = text.toLowerCase();
+  return (options.skipMarkers ?? DEFAULT_SKIP_MARKERS).find((marker) =>
+    lowerText.includes(marker.toLowerCase())
+  );
+}
+
 /**
  * Extracts issue IDs from a commit message (works for both Jira and Linear)
  * @param message The commit message to parse
+ * @param options Optional formats to recognize
  * @returns Array of unique issue IDs found
  */
-export function extractTicketIds(message: string): string[] {
-  const matches = message.match(ISSUE_ID_PATTERN);
-  if (!matches) {
-    return [];
+export function extractTicketIds(
+  message: string,
+  options: ParseOptions = {}
+): string[] {
+  const trackers = options.trackers ?? ['jira'];
+  const matches: string[] = [];
+
+  if (trackers.includes('jira') || trackers.includes('linear')) {
+    matches.push(...(message.match(ISSUE_ID_PATTERN) ?? []));
+    matches.push(...extractIssueUrls(message));
+    matches.push(...extractKnownKeys(message, options.knownKeys ?? []));
+
+    // Trailer values may be written in lowercase
+    for (const value of getTrailerValues(message, options.trailers ?? DEFAULT_TRAILERS)) {
+      for (const token of value.split(/[\s,;]+/)) {
+        const id = token.replace(/^[[(]|[\])]$/g, '');
+        if (LOOSE_ISSUE_ID_PATTERN.test(id)) {
+          matches.push(id.toUpperCase());
+        }
+      }
+    }
+  }
+
+  if (trackers.includes('github')) {
+    matches.push(
+      ...extractGitHubIssueRefs(
+        message,
+        options.defaultRepo,
+        options.pullRequestNumbers
+      )
+    );
+  }
+
+  if (trackers.includes('azure')) {
+    for (const match of message.matchAll(AZURE_REF_PATTERN)) {
+      matches.push(`AB#${match[1]}`);
+    }
+  }
+
+  if (trackers.includes('shortcut')) {
+    // A configured SC project/team key claims sc-123 as its own
+    const scIsKey = options.knownKeys?.some((key) => key.toUpperCase() === 'SC');
+    for (const match of message.matchAll(SHORTCUT_REF_PATTERN)) {
+      if (match[1] && scIsKey) {
+        continue;
+      }
+      matches.push(`sc-${match[1] ?? match[2] ?? match[3]}`);
+    }
+  }
+
+  for (const pattern of options.patterns ?? []) {
+    for (const match of message.matchAll(pattern)) {
+      matches.push(normalizeKey(match[1] ?? match[0]));
+    }
+  }
+
+  // Remove false positives and duplicates
+  return [...new Set(matches)].filter((id) => !isIgnored(id, options));
+}
+
+/**
+ * Extracts issue IDs and classifies each as closed or merely mentioned
+ * @param message The text to parse
+ * @param options Optional formats to recognize
+ * @returns Map of issue ID to reference type, closes winning over mentions
+ */
+export function classifyTicketIds(
+  message: string,
+  options: ParseOptions = {}
+): Record<string, ReferenceType> {
+  const references: Record<string, ReferenceType> = {};
+  const keywords = [...message.matchAll(REFERENCE_KEYWORD_PATTERN)];
+
+  keywords.forEach((keyword, index) => {
+    const start = keyword.index ?? 0;
+    const end = keywords[index + 1]?.index ?? message.length;
+    let clause = message.slice(start, end);
+    const clauseEnd = clause.search(CLAUSE_END_PATTERN);
+    if (clauseEnd !== -1) {
+      clause = clause.slice(0, clauseEnd);
+    }
+
+    const type: ReferenceType = keyword[1] ? 'closes' : 'mentions';
+    for (const id of extractTicketIds(clause, options)) {
+      if (references[id] !== 'closes') {
+        references[id] = type;
+      }
+    }
+  });
+
+  for (const id of extractTicketIds(message, options)) {
+    references[id] ??= 'closes';
+  }
+  return references;
+}
+
+/**
+ * Detects a revert commit and the commit it reverts
+ * @param message The commit message (or pull request title)
+ * @returns Whether the message reverts a change, and the reverted sha when given
+ */
+export function parseRevert(message: string): {
+  isRevert: boolean;
+  revertedSha?: string;
+} {
+  let subject = message.split('\n')[0].trim();
+  let depth = 0;
+  while (subject.startsWith(REVERT_SUBJECT_PREFIX)) {
+    subject = subject.slice(REVERT_SUBJECT_PREFIX.length);
+    depth++;
+  }
+
+  // A revert of a revert reapplies the original change
+  const revertedSha = message.match(REVERTS_COMMIT_PATTERN)?.[1];
+  const isRevert =
+    depth > 0
+      ? depth % 2 === 1
+      : revertedSha !== undefined && !subject.startsWith(REAPPLY_SUBJECT_PREFIX);
+
+  return { isRevert, revertedSha: isRevert ? revertedSha : undefined };
+}
+
+/**
+ * Extracts GitHub issue references as owner/repo#123
+ * @param message The commit message to parse
+ * @param defaultRepo owner/repo used to qualify bare #123 references
+ * @param pullRequestNumbers Known pull request numbers, skipped as bare refs
+ * @returns Array of fully qualified issue references
+ */
+export function extractGitHubIssueRefs(
+  message: string,
+  defaultRepo?: string,
+  pullRequestNumbers: number[] = []
+): string[] {
+  const refs: string[] = [];
+
+  for (const match of message.matchAll(GITHUB_FULL_REF_PATTERN)) {
+    refs.push(`${match[1]}#${match[2]}`);
   }
 
-  // Remove duplicates and return
-  return [...new Set(matches)];
+  if (defaultRepo) {
+    // Issues and pull requests share numbers, so a merge or squash subject's
+    // #45 and any known pull request are never issues
+    const [subject, ...body] = message.split('\n');
+    const withoutMergeRefs = [
+      subject
+        .replace(MERGE_SUBJECT_PATTERN, '')
+        .replace(SQUASH_SUBJECT_SUFFIX_PATTERN, ''),
+      ...body,
+    ].join('\n');
+    const withoutFullRefs = withoutMergeRefs.replace(
+      GITHUB_FULL_REF_PATTERN,
+      ''
+    );
+    for (const match of withoutFullRefs.matchAll(GITHUB_SHORT_REF_PATTERN)) {
+      if (!pullRequestNumbers.includes(Number(match[1]))) {
+        refs.push(`${defaultRepo}#${match[1]}`);
+      }
+    }
+  }
+
+  return refs;
 }
 
 /**
@@ -36,38 +374,106 @@ export const extractLinearIssueIds = extractTicketIds;
 
 /**
  * Parses commits from GitHub context
- * @param commits Array of commit objects from GitHub webhook
+ * Ticket IDs are taken from the commit message, then from the title, body
+ * and head branch of the pull requests the commit was merged through
+ * @param commits Array of commit objects from GitHub webhook or API
  * @param projectKey Optional project/team key to filter tickets (works for both Jira and Linear)
+ * @param options Optional formats to recognize
  * @returns Array of parsed commits with ticket information
  */
 export function parseCommits(
-  commits: Array<{
-    id: string;
-    message: string;
-    author: { name: string; email: string };
-  }>,
-  projectKey?: string
+  commits: GitCommit[],
+  projectKey?: string,
+  options: ParseOptions = {}
 ): ParsedCommit[] {
   const parsedCommits: ParsedCommit[] = [];
+  const knownPullRequests = commits.flatMap((commit) =>
+    (commit.pullRequests ?? []).map((pullRequest) => pullRequest.number)
+  );
+  const commitOptions: ParseOptions = {
+    ...options,
+    pullRequestNumbers: [
+      ...(options.pullRequestNumbers ?? []),
+      ...knownPullRequests,
+    ],
+  };
 
   for (const commit of commits) {
-    const ticketIds = extractTicketIds(commit.message);
+    const pullRequests = commit.pullRequests ?? [];
+
+    const skipMarker = findSkipMarker(
+      [commit.message, ...pullRequests.map((pr) => pr.title)].join('\n'),
+      commitOptions
+    );
+    if (skipMarker) {
+      core.info(`Skipping commit ${commit.id.substring(0, 7)} marked ${skipMarker}`);
+      continue;
+    }
 
-    // Filter by project/team key if provided (works for both Jira PROJ-123 and Linear TEAM-123)
-    const filteredTickets = projectKey
-      ? ticketIds.filter((id) => id.startsWith(`${projectKey}-`))
-      : ticketIds;
+    const ticketSources: Record<string, TicketSource> = {};
+    const ticketReferences: Record<string, ReferenceType> = {};
+    const addTickets = (text: string, source: TicketSource) => {
+      const references = classifyTicketIds(text, commitOptions);
+      for (const [id, reference] of Object.entries(references)) {
+        // Filter by project/team key if provided (works for both Jira PROJ-123 and Linear TEAM-123)
+        if (projectKey && isValidTicketId(id) && !id.startsWith(`${projectKey}-`)) {
+          continue;
+        }
+        ticketSources[id] ??= source;
+        if (ticketReferences[id] !== 'closes') {
+          ticketReferences[id] = reference;
+        }
+      }
+    };
+
+    addTickets(commit.message, 'commit');
+    for (const pullRequest of pullRequests) {
+      addTickets(pullRequest.title, 'pr_title');
+      addTickets(pullRequest.body, 'pr_body');
+      addTickets(pullRequest.branch, 'branch');
+    }
+
+    // Reverts merged through GitHub's revert button keep the original
+    // message only in the pull request title
+    const revert = parseRevert(commit.message);
+    const isRevert =
+      revert.isRevert ||
+      pullRequests.some((pullRequest) => parseRevert(pullRequest.title).isRevert);
+
+    // A revert naming no ticket reverts the tickets of the commit it names
+    if (
+      isRevert &&
+      revert.revertedSha &&
+      Object.keys(ticketSources).length === 0
+    ) {
+      const reverted = findRevertedCommit(
+        revert.revertedSha,
+        parsedCommits,
+        commitOptions,
+        projectKey
+      );
+      if (reverted) {
+        Object.assign(ticketSources, reverted.ticketSources);
+        Object.assign(ticketReferences, reverted.ticketReferences);
+      }
+    }
 
-    if (filteredTickets.length > 0) {
+    const ticketIds = Object.keys(ticketSources);
+    if (ticketIds.length > 0) {
       parsedCommits.push({
         sha: commit.id,
         message: commit.message.split('\n')[0], // First line only
         author: commit.author.name,
-        ticketIds: filteredTickets,
+        ticketIds,
+        ticketSources,
+        ticketReferences,
+        pullRequests,
+        isRevert,
+        revertedSha: revert.revertedSha,
       });
 
       core.debug(
-        `Found ${filteredTickets.length} issue(s) in commit ${commit.id.substring(0, 7)}: ${filteredTickets.join(', ')}`
+        `Found ${ticketIds.length} issue(s) in ${isRevert ? 'revert ' : ''}commit ${commit.id.substring(0, 7)}: ${ticketIds.map((id) => `${id} (${ticketReferences[id]}, ${ticketSources[id]})`).join(', ')}`
       );
     }
   }
@@ -75,6 +481,41 @@ export function parseCommits(
   return parsedCommits;
 }
 
+/**
+ * Checks whether a full SHA matches a possibly abbreviated one
+ */
+function matchesSha(sha: string, revertedSha: string): boolean {
+  return sha.toLowerCase().startsWith(revertedSha.toLowerCase());
+}
+
+/**
+ * Finds the parsed commit a revert names, among the commits parsed so far
+ * or the commits before the range
+ */
+function findRevertedCommit(
+  revertedSha: string,
+  parsedCommits: ParsedCommit[],
+  options: ParseOptions,
+  projectKey?: string
+): ParsedCommit | undefined {
+  const parsed = parsedCommits.find((commit) =>
+    matchesSha(commit.sha, revertedSha)
+  );
+  if (parsed) {
+    return parsed;
+  }
+
+  const earlier = options.revertedCommits?.find((commit) =>
+    matchesSha(commit.id, revertedSha)
+  );
+  return earlier
+    ? parseCommits([earlier], projectKey, {
+        ...options,
+        revertedCommits: undefined,
+      })[0]
+    : undefined;
+}
+
 /**
  * Gets all unique ticket IDs from parsed commits
  * @param parsedCommits Array of parsed commits
@@ -85,6 +526,118 @@ export function getAllTicketIds(parsedCommits: ParsedCommit[]): string[] {
   return [...new Set(allTickets)];
 }
 
+/**
+ * Gets the net effect of the commits on each ticket
+ * A revert naming a commit in the range cancels only that commit, so the
+ * ticket stays deployed while any of its other commits remain. A revert of
+ * an earlier commit rolls the ticket back unless it was deployed again. A
+ * revert naming no commit undoes the ticket's commits in the range, or rolls
+ * it back when there are none.
+ * @param parsedCommits Array of parsed commits, oldest first
+ * @returns Map of ticket ID to its change
+ */
+export function getTicketChanges(
+  parsedCommits: ParsedCommit[]
+): Map<string, TicketChange> {
+  const tickets = new Map<string, { live: string[]; rolledBack: boolean }>();
+  for (const commit of parsedCommits) {
+    for (const ticketId of commit.ticketIds) {
+      const ticket = tickets.get(ticketId) ?? { live: [], rolledBack: false };
+      tickets.set(ticketId, ticket);
+
+      if (!commit.isRevert) {
+        ticket.live.push(commit.sha);
+      } else if (!commit.revertedSha) {
+        ticket.rolledBack ||= ticket.live.length === 0;
+        ticket.live = [];
+      } else {
+        const revertedSha = commit.revertedSha;
+        const index = ticket.live.findIndex((sha) =>
+          matchesSha(sha, revertedSha)
+        );
+        if (index !== -1) {
+          ticket.live.splice(index, 1);
+        } else {
+          ticket.rolledBack = true;
+        }
+      }
+    }
+  }
+
+  const result = new Map<string, TicketChange>();
+  for (const [ticketId, ticket] of tickets) {
+    result.set(
+      ticketId,
+      ticket.live.length > 0
+        ? 'deployed'
+        : ticket.rolledBack
+          ? 'rolled_back'
+          : 'none'
+    );
+  }
+  return result;
+}
+
+/**
+ * Gets how each ticket was referenced across all commits
+ * A ticket closed by any commit counts as closed
+ * @param parsedCommits Array of parsed commits
+ * @returns Map of ticket ID to reference type
+ */
+export function getReferenceTypes(
+  parsedCommits: ParsedCommit[]
+): Map<string, ReferenceType> {
+  const result = new Map<string, ReferenceType>();
+  for (const commit of parsedCommits) {
+    for (const [ticketId, reference] of Object.entries(commit.ticketReferences)) {
+      if (result.get(ticketId) !== 'closes') {
+        result.set(ticketId, reference);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Gets the commits each ticket was deployed in
+ * @param parsedCommits Array of parsed commits
+ * @returns Map of ticket ID to commit SHAs, in commit order
+ */
+export function getCommitsByTicket(
+  parsedCommits: ParsedCommit[]
+): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  for (const commit of parsedCommits) {
+    for (const ticketId of commit.ticketIds) {
+      result.set(ticketId, [...(result.get(ticketId) ?? []), commit.sha]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Gets the pull requests each ticket was shipped through
+ * @param parsedCommits Array of parsed commits
+ * @returns Map of ticket ID to its unique pull requests
+ */
+export function getPullRequestsByTicket(
+  parsedCommits: ParsedCommit[]
+): Map<string, PullRequestInfo[]> {
+  const result = new Map<string, PullRequestInfo[]>();
+  for (const commit of parsedCommits) {
+    for (const ticketId of commit.ticketIds) {
+      const pullRequests = result.get(ticketId) ?? [];
+      for (const pullRequest of commit.pullRequests) {
+        if (!pullRequests.some((pr) => pr.url === pullRequest.url)) {
+          pullRequests.push(pullRequest);
+        }
+      }
+      result.set(ticketId, pullRequests);
+    }
+  }
+  return result;
+}
+
 /**
  * Validates an issue ID format (works for both Jira and Linear)
  * @param ticketId The ticket/issue ID to validate
@@ -94,22 +647,61 @@ export function isValidTicketId(ticketId: string): boolean {
   return /^[A-Z]{2,10}-\d+$/.test(ticketId);
 }
 
+/**
+ * Gets the project/team/repository prefix of an issue ID
+ * @param issueId The issue ID (PROJ-123, owner/repo#123, AB#123 or sc-123)
+ * @returns The prefix, e.g. PROJ, owner/repo, AB or sc
+ */
+export function getIssuePrefix(issueId: string): string {
+  if (
+    GITHUB_ISSUE_ID_PATTERN.test(issueId) ||
+    AZURE_ISSUE_ID_PATTERN.test(issueId)
+  ) {
+    return issueId.split('#')[0];
+  }
+  return issueId.split('-')[0];
+}
+
 /**
  * Detects if an issue ID is likely from Jira or Linear based on common patterns
- * Note: This is heuristic-based and may not be 100% accurate
+ * GitHub (owner/repo#123), Azure Boards (AB#123) and Shortcut (sc-123)
+ * references are unambiguous
+ * With an explicit prefix map (e.g. from tracker_prefix_map) unmapped
+ * prefixes are 'unknown'; without one the fallback is heuristic-based
+ * and may not be 100% accurate
  * @param issueId The issue ID to check
- * @returns 'jira', 'linear', or 'unknown'
+ * @param prefixMap Optional map of issue prefixes to trackers
+ * @returns the tracker, or 'unknown'
  */
-export function detectIssueTracker(issueId: string): 'jira' | 'linear' | 'unknown' {
+export function detectIssueTracker(
+  issueId: string,
+  prefixMap?: Record<string, TrackerType>
+): TrackerType | 'unknown' {
+  if (GITHUB_ISSUE_ID_PATTERN.test(issueId)) {
+    return 'github';
+  }
+
+  if (AZURE_ISSUE_ID_PATTERN.test(issueId)) {
+    return 'azure';
+  }
+
+  if (SHORTCUT_ISSUE_ID_PATTERN.test(issueId)) {
+    return 'shortcut';
+  }
+
   if (!isValidTicketId(issueId)) {
     return 'unknown';
   }
 
+  const prefix = getIssuePrefix(issueId);
+
+  if (prefixMap) {
+    return prefixMap[prefix] ?? 'unknown';
+  }
+
   // Linear typically uses shorter team keys (2-4 chars) and sequential numbering
   // Jira often uses longer project keys (3-10 chars)
   // This is heuristic and should be overridden by explicit configuration
-  const [prefix] = issueId.split('-');
-
   if (prefix.length <= 4) {
     // Could be either, return unknown to rely on config
     return 'unknown';
@@ -0,0 +1,103 @@
+import { DeploymentMetadata, NotificationData } from '../types';
+
+/**
+ * A titled group of tickets within a notification
+ */
+export interface NotificationSection {
+  title: string;
+  notifications: NotificationData[];
+}
+
+/**
+ * Gets the headline of a deployment or rollback notification
+ */
+export function getNotificationTitle(metadata: DeploymentMetadata): string {
+  return metadata.rollback
+    ? `⏪ Rolled Back from ${metadata.environment}`
+    : '🚀 New Deployment Ready for Testing';
+}
+
+/**
+ * Gets the "3 tickets deployed" / "3 tickets rolled back" summary
+ */
+export function getTicketCountText(
+  count: number,
+  metadata: DeploymentMetadata
+): string {
+  return `${count} ticket${count !== 1 ? 's' : ''} ${metadata.rollback ? 'rolled back' : 'deployed'}`;
+}
+
+/**
+ * Gets the "TICKET - Summary" line for a ticket
+ * @param ticket The ticket as rendered, e.g. a link in the notifier's markup
+ */
+export function getTicketTitle(
+  notification: NotificationData,
+  ticket = notification.ticket
+): string {
+  return `${ticket} - ${notification.summary}`;
+}
+
+/**
+ * Gets the "Sprint: ..." / "Cycle: ..." text for a ticket
+ */
+export function getIterationText(notification: NotificationData): string {
+  // Support both sprints (Jira) and cycles (Linear)
+  if (notification.sprint) {
+    return `Sprint: ${notification.sprint}`;
+  }
+  if (notification.cycle) {
+    return `Cycle: ${notification.cycle}`;
+  }
+  return 'No sprint/cycle';
+}
+
+/**
+ * Gets the "Status | Sprint: ... | Assignee: ..." line for a ticket
+ */
+export function getTicketDetailsText(notification: NotificationData): string {
+  const assigneeText = notification.assignee
+    ? ` | Assignee: ${notification.assignee}`
+    : '';
+  return `${notification.status} | ${getIterationText(notification)}${assigneeText}`;
+}
+
+/**
+ * Gets the " | PR #1, #2" suffix for a ticket, or '' without pull requests
+ * @param formatLink Renders a pull request link in the notifier's markup
+ */
+export function getPullRequestText(
+  notification: NotificationData,
+  formatLink: (pullRequest: { number: number; url: string }) => string
+): string {
+  if (!notification.pullRequests?.length) {
+    return '';
+  }
+  return ` | PR ${notification.pullRequests.map(formatLink).join(', ')}`;
+}
+
+/**
+ * Splits tickets into those ready for testing (closed by a commit) and
+ * those only mentioned, omitting empty sections
+ * Rolled back tickets form a single section
+ */
+export function getNotificationSections(
+  notifications: NotificationData[],
+  metadata?: DeploymentMetadata
+): NotificationSection[] {
+  if (metadata?.rollback) {
+    return [{ title: 'Tickets Rolled Back', notifications }];
+  }
+
+  const sections: NotificationSection[] = [
+    {
+      title: 'Tickets Ready for Testing',
+      notifications: notifications.filter((n) => n.reference !== 'mentions'),
+    },
+    {
+      title: 'Partial Progress',
+      notifications: notifications.filter((n) => n.reference === 'mentions'),
+    },
+  ];
+  return sections.filter((section) => section.notifications.length > 0);
+}